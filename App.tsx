@@ -1,126 +1,254 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { generateStrategies, expandStep, generateResourcePlan, generateStrategyPlan, regenerateStepText, regenerateFutureSteps } from './services/geminiService';
-import { GoalState, Step, Resource, PlanItem, Strategy, Language } from './types';
-import { Wand2, Layers, Loader2, ArrowRight, ArrowLeft, Copy, Download, Check } from './components/Icons';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { generateStrategies, generateAlternativeStrategies, refineStrategy, expandStep, generateResourcePlan, generateStrategyPlan, regenerateStepText, regenerateCheaperStep, regenerateFutureSteps, assessResources, matchResourceAliases, translatePlan } from './services/geminiService';
+import { createGoalId, deleteGoal, duplicateGoal, getActiveGoalId, listSavedGoals, loadGoal, renameGoal, saveGoal, setActiveGoalId } from './services/storage';
+import { isAbortError, LLMError, LLMErrorKind } from './services/llm';
+import { GoalState, Step, Resource, PlanItem, Strategy, Language, SavedGoalSummary, PlanChange, PlanVersion } from './types';
+import { Wand2, Layers, Loader2, ArrowRight, ArrowLeft, Copy, Download, Check, Library, Upload, FileJson, GanttChart, ListTree, CalendarDays, Columns3, Sparkles, Shuffle, Edit3, RefreshCw, X, Undo2, Redo2, History, Gauge, Box, Activity } from './components/Icons';
 import { StepList } from './components/StepList';
+import { TimelineView } from './components/TimelineView';
 import { ResourcePanel } from './components/ResourcePanel';
-import { getTranslation } from './translations';
+import { GoalLibrary } from './components/GoalLibrary';
+import { StrategyComparison } from './components/StrategyComparison';
+import { HistoryPanel } from './components/HistoryPanel';
+import { FutureDiffView } from './components/FutureDiffView';
+import { PlanVersions } from './components/PlanVersions';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { ResourceTab } from './components/ResourceTab';
+import { BudgetSummary, StrategyCostBadge } from './components/BudgetSummary';
+import { TelemetryPanel } from './components/TelemetryPanel';
+import { DEFAULT_LANGUAGE, getLocale, getTranslation, interpolate, LANGUAGES, pluralize } from './translations';
+import { generatePlainText, parsePlanMarkdown } from './services/planMarkdown';
+import { canRedo, canUndo, jumpInHistory, recordChange, redo, undo } from './services/planHistory';
+import { applyPlanDiff, diffPlanItems } from './services/planDiff';
+import { createPlanDocument, parsePlanDocument, planDocumentToGoalState } from './services/planDocument';
+import { StepEstimate } from './services/planSchedule';
+import { getAcquisitionCost, getGoalBudget } from './services/planBudget';
+import { applyPlanEdit, findStep, getStepAncestors, PlanEdit } from './services/planEditing';
+import { getRootSteps } from './services/planGraph';
+import { inheritCompletion, normalizeGoalCompletion, setStepCompletion } from './services/planProgress';
+import { getResourceStatuses } from './services/resourceInventory';
+import { cleanResourceName, createResource, extractBracketedResources, findResource, getMergeSuggestions, getResourceKeys, getResourceUsage, mergeResources, registerResourceNames, resourceKey, splitResourceAlias } from './services/resourceRegistry';
+import { collectPlanResources } from './services/strategyMetrics';
+import { enterResource, findAcquisitionCycle } from './services/resourceTree';
+import { generateICS, schedulePlanDates } from './services/planCalendar';
+import { applyPlanTranslation } from './services/planTranslation';
+
+const DEFAULT_STRATEGY_COUNT = 3;
+const MORE_STRATEGIES_COUNT = 2;
+const MAX_COMPARE = 3;
+// How long a step revealed from the resources view stays highlighted
+const REVEAL_HIGHLIGHT_MS = 2500;
+
+const initialState: GoalState = {
+  goalId: null,
+  description: '',
+  quantification: '',
+  environment: '',
+  strategies: [],
+  resources: [],
+  selectedResourceId: null,
+  selectedStrategyId: null,
+  stage: 'INPUT',
+  loading: false,
+  error: null,
+  language: DEFAULT_LANGUAGE
+};
+
+// Reopen whatever goal was active before the page was reloaded
+const restoreActiveGoal = (): GoalState => {
+  const activeId = getActiveGoalId();
+  return (activeId && loadGoal(activeId)) || initialState;
+};
 
 const App: React.FC = () => {
-  const [state, setState] = useState<GoalState>({
-    description: '',
-    quantification: '',
-    environment: '',
-    strategies: [],
-    resources: [],
-    selectedResourceId: null,
-    selectedStrategyId: null,
-    stage: 'INPUT',
-    loading: false,
-    error: null,
-    language: 'en'
-  });
+  const [state, setState] = useState<GoalState>(restoreActiveGoal);
 
   const [copied, setCopied] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importJsonInputRef = useRef<HTMLInputElement>(null);
+  const [roadmapView, setRoadmapView] = useState<'steps' | 'timeline' | 'progress' | 'resources'>('steps');
+  const [revealStepId, setRevealStepId] = useState<string | null>(null);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [alternativesLoading, setAlternativesLoading] = useState<string | null>(null); // Reference strategy id, or 'different'
+  const [refineTargetId, setRefineTargetId] = useState<string | null>(null);
+  const [refineFeedback, setRefineFeedback] = useState('');
+  const [savedGoals, setSavedGoals] = useState<SavedGoalSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTelemetry, setShowTelemetry] = useState(false);
 
   const t = getTranslation(state.language);
+  const locale = getLocale(state.language).intlLocale;
+
+  // Turns a failed request into a message that says what actually went wrong
+  const describeError = (err: unknown): string => {
+    if (!(err instanceof LLMError)) return t.errorGeneric;
+    const messages: Record<LLMErrorKind, string> = {
+      network: t.errorNetwork,
+      rate_limit: t.errorRateLimit,
+      auth: t.errorAuth,
+      server: t.errorServer,
+      request: t.errorRequest,
+      invalid_response: t.errorInvalidResponse
+    };
+    return messages[err.kind];
+  };
+
+  // For requests whose failure only needs a banner; cancelled requests stay quiet
+  const reportError = (err: unknown) => {
+    if (isAbortError(err)) return;
+    console.error(err);
+    setState(prev => ({ ...prev, error: describeError(err) }));
+  };
+
+  // Every request is tied to the current navigation scope; leaving it aborts whatever is still in flight
+  const requestScopeRef = useRef(new AbortController());
 
-  const LOADING_MESSAGES = [
-    t.loadingAnalyzing,
-    t.loadingThinking,
-    t.loadingStrategies,
-    t.loadingResources,
-    t.loadingFinalizing
-  ];
+  const requestOptions = () => ({ signal: requestScopeRef.current.signal });
 
-  const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
+  const cancelPendingRequests = () => {
+    requestScopeRef.current.abort();
+    requestScopeRef.current = new AbortController();
+  };
 
-  // Loading message cycler
+  // Autosave the active goal (debounced so typing doesn't hammer storage)
   useEffect(() => {
-    let interval: any;
-    if (state.loading) {
-      setLoadingMsgIndex(0);
-      interval = setInterval(() => {
-        setLoadingMsgIndex(prev => (prev + 1) % LOADING_MESSAGES.length);
-      }, 2500);
-    }
-    return () => clearInterval(interval);
-  }, [state.loading, state.language]); // Reset when language changes
+    if (!state.goalId) return;
+    const goalId = state.goalId;
+    const timeout = setTimeout(() => saveGoal(goalId, state), 500);
+    return () => clearTimeout(timeout);
+  }, [state]);
 
   // Scroll to top on stage change
   useEffect(() => {
-    if (state.stage === 'SELECTION' || state.stage === 'PROCESS') {
+    if (state.stage === 'SELECTION' || state.stage === 'PROCESS' || state.stage === 'LIBRARY') {
       window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   }, [state.stage]);
 
+  // Undo/redo shortcuts on the roadmap; text fields keep their native undo
+  useEffect(() => {
+    if (state.stage !== 'PROCESS') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+      e.preventDefault();
+      setState(prev => e.shiftKey ? redo(prev) : undo(prev));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [state.stage]);
+
   // --- Handlers ---
 
+  const strategyCount = state.strategyCount ?? DEFAULT_STRATEGY_COUNT;
+  const budget = getGoalBudget(state);
+
   const handleGenerate = async () => {
     if (!state.description.trim()) return;
 
+    const goalId = createGoalId();
+    setActiveGoalId(goalId);
+
     setState(prev => ({ 
       ...prev, 
+      goalId,
       loading: true, 
-      stage: 'PROCESSING',
+      stage: 'SELECTION',
       error: null, 
       strategies: [], 
       resources: [],
       selectedResourceId: null,
+      resourceTrail: undefined,
       selectedStrategyId: null
     }));
     
     try {
-      const strategies = await generateStrategies(state.description, state.quantification, state.environment, state.language);
+      // Cards appear one by one while the rest of the response streams in
+      const strategies = await generateStrategies(state.description, state.quantification, state.environment, budget, state.language, strategyCount, {
+        ...requestOptions(),
+        onPartial: (partial) => setState(prev => ({ ...prev, strategies: partial })),
+      });
       
       setState(prev => ({
         ...prev,
         loading: false,
-        stage: 'SELECTION',
         strategies,
         resources: [], // Resources are now found when plan is generated
       }));
 
     } catch (err) {
+      if (isAbortError(err)) {
+        setState(prev => ({ ...prev, loading: false }));
+        return;
+      }
       console.error(err);
       setState(prev => ({
         ...prev,
         loading: false,
         stage: 'INPUT',
-        error: t.errorGeneric
+        error: describeError(err)
       }));
     }
   };
 
   const handleSelectStrategy = async (strategyId: string) => {
     const strategy = state.strategies.find(s => s.id === strategyId);
-    if (!strategy) return;
+    if (!strategy || state.loading) return; // Wait until every strategy has arrived
 
-    // Lazy load the plan if it doesn't exist OR if language has changed
+    // A plan in another language is translated in place, keeping edits and progress
+    if (strategy.plan && strategy.plan.length > 0 && strategy.planLanguage && strategy.planLanguage !== state.language) {
+      setState(prev => ({ ...prev, stage: 'PROCESS', error: null, selectedStrategyId: strategyId }));
+      translateStrategyPlan(strategy, state.language);
+      return;
+    }
+
+    // Lazy load the plan if it doesn't exist yet, or if its language is unknown
     if (!strategy.plan || strategy.plan.length === 0 || strategy.planLanguage !== state.language) {
-       setState(prev => ({ ...prev, loading: true, stage: 'PROCESSING' })); // Reuse processing screen briefly
+       // Open the roadmap right away and fill it in as plan items stream in.
+       // Replacing an existing plan can be undone.
+       commitState(prev => ({
+         ...prev,
+         stage: 'PROCESS',
+         error: null,
+         selectedStrategyId: strategyId,
+         resources: [],
+         strategies: prev.strategies.map(s => s.id === strategyId ? { ...s, plan: [], planLoading: true } : s)
+       }), strategy.plan && strategy.plan.length > 0 ? { kind: 'plan', detail: strategy.title } : undefined);
        
        try {
-         const plan = await generateStrategyPlan(strategy, state.description, state.environment, state.language);
-         
-         const newResources = extractResourcesFromPlan(plan);
+         const plan = await generateStrategyPlan(strategy, state.description, state.quantification, state.environment, budget, state.language, {
+           ...requestOptions(),
+           onPartial: (partial) => setState(prev => ({
+             ...prev,
+             resources: extractResourcesFromPlan(partial, prev.resources),
+             strategies: prev.strategies.map(s => s.id === strategyId ? { ...s, plan: partial } : s)
+           })),
+         });
          
          setState(prev => ({
            ...prev,
-           loading: false,
-           stage: 'PROCESS',
-           selectedStrategyId: strategyId,
-           resources: newResources,
-           strategies: prev.strategies.map(s => s.id === strategyId ? { ...s, plan, planLanguage: state.language } : s)
+           resources: extractResourcesFromPlan(plan, prev.resources),
+           strategies: prev.strategies.map(s => s.id === strategyId ? { ...s, plan, planLanguage: state.language, planLoading: false } : s)
          }));
+         assessPlanResources(plan);
+         linkTranslatedResources(collectPlanResources(plan));
 
        } catch (err) {
+         // Keep whatever plan the strategy had before; a half-streamed one is not worth keeping
+         const restored = (s: Strategy) => s.id === strategyId ? { ...s, plan: strategy.plan, planLoading: false } : s;
+         if (isAbortError(err)) {
+           setState(prev => ({ ...prev, strategies: prev.strategies.map(restored) }));
+           return;
+         }
          console.error(err);
          setState(prev => ({
            ...prev,
-           loading: false,
            stage: 'SELECTION',
-           error: t.errorGeneric
+           selectedStrategyId: null,
+           error: describeError(err),
+           strategies: prev.strategies.map(restored)
          }));
        }
 
@@ -129,113 +257,353 @@ const App: React.FC = () => {
       setState(prev => ({
         ...prev,
         selectedStrategyId: strategyId,
+        resources: extractResourcesFromPlan(strategy.plan!, prev.resources),
         stage: 'PROCESS'
       }));
     }
   };
 
-  const extractResourcesFromPlan = (plan: PlanItem[], existingResources: Resource[] = []): Resource[] => {
-      const newResources: Resource[] = [...existingResources];
-      const seenResources = new Set<string>(existingResources.map(r => r.name.toLowerCase()));
-
-      const addResource = (resName: string) => {
-        const cleanName = resName.replace(/[\[\]]/g, '').trim(); 
-        if (cleanName && !seenResources.has(cleanName.toLowerCase())) {
-          seenResources.add(cleanName.toLowerCase());
-          newResources.push({
-            id: `res-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            name: cleanName,
-            isExpanded: false,
-            language: state.language
-          });
-        }
-      };
+  // --- Strategy Regeneration / Refinement ---
 
-      plan.forEach(item => {
-        if (item.type === 'single') {
-          item.step.resources.forEach(addResource);
-        } else {
-          item.group.steps.forEach(s => s.resources.forEach(addResource));
-        }
+  const handleMoreStrategies = async (mode: 'similar' | 'different', reference: Strategy | null) => {
+    setAlternativesLoading(reference ? reference.id : 'different');
+    setState(prev => ({ ...prev, error: null }));
+    try {
+      const more = await generateAlternativeStrategies(
+        state.description, state.quantification, state.environment, budget,
+        state.strategies, mode, reference, MORE_STRATEGIES_COUNT, state.language, { ...requestOptions(), bypassCache: true }
+      );
+      setState(prev => {
+        // Variations go right after the strategy they are based on
+        const insertAt = reference ? prev.strategies.findIndex(s => s.id === reference.id) + 1 : prev.strategies.length;
+        return {
+          ...prev,
+          strategies: [...prev.strategies.slice(0, insertAt), ...more, ...prev.strategies.slice(insertAt)]
+        };
       });
-      return newResources;
+    } catch (err) {
+      reportError(err);
+    } finally {
+      setAlternativesLoading(null);
+    }
+  };
+
+  const handleRefineStrategy = async (strategy: Strategy, feedback: string) => {
+    if (!feedback.trim()) return;
+    setRefineTargetId(null);
+    setRefineFeedback('');
+    setState(prev => ({
+      ...prev,
+      error: null,
+      strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, refining: true } : s)
+    }));
+
+    try {
+      const others = state.strategies.filter(s => s.id !== strategy.id);
+      const refined = await refineStrategy(
+        state.description, state.quantification, state.environment, budget,
+        strategy, feedback, others, state.language, requestOptions()
+      );
+      // The old plan no longer matches, so it is dropped and regenerated on demand
+      setState(prev => ({
+        ...prev,
+        strategies: prev.strategies.map(s => s.id === strategy.id ? refined : s)
+      }));
+    } catch (err) {
+      reportError(err);
+      setState(prev => ({
+        ...prev,
+        strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, refining: false } : s)
+      }));
+    }
+  };
+
+  // --- Strategy Comparison ---
+
+  const toggleCompareSelection = (strategyId: string) => {
+    setCompareSelection(prev => prev.includes(strategyId)
+      ? prev.filter(id => id !== strategyId)
+      : prev.length < MAX_COMPARE ? [...prev, strategyId] : prev);
+  };
+
+  // Generates a plan in the background without leaving the current screen; cached per language
+  const ensureStrategyPlan = async (strategy: Strategy) => {
+    if (strategy.plan && strategy.plan.length > 0 && strategy.planLanguage === state.language) return;
+    if (strategy.plan && strategy.plan.length > 0 && strategy.planLanguage) return translateStrategyPlan(strategy, state.language);
+
+    setState(prev => ({
+      ...prev,
+      strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, planLoading: true } : s)
+    }));
+
+    try {
+      const plan = await generateStrategyPlan(strategy, state.description, state.quantification, state.environment, budget, state.language, requestOptions());
+      setState(prev => ({
+        ...prev,
+        strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, plan, planLanguage: state.language, planLoading: false } : s)
+      }));
+    } catch (err) {
+      console.error(err);
+      setState(prev => ({
+        ...prev,
+        strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, planLoading: false } : s)
+      }));
+    }
+  };
+
+  const handleCompareStrategies = () => {
+    setIsComparing(true);
+    state.strategies
+      .filter(s => compareSelection.includes(s.id))
+      .forEach(ensureStrategyPlan);
+  };
+
+  const handleChooseCompared = (strategyId: string) => {
+    setIsComparing(false);
+    setCompareSelection([]);
+    handleSelectStrategy(strategyId);
+  };
+
+  const extractResourcesFromPlan = (plan: PlanItem[], existingResources: Resource[] = []): Resource[] =>
+      registerResourceNames(existingResources, collectPlanResources(plan), state.language);
+
+  // Marks what the environment says the user already owns and what they still need
+  const assessPlanResources = async (plan: PlanItem[]) => {
+    const names = collectPlanResources(plan).filter(name => !findResource(state.resources, name)?.status);
+    if (names.length === 0) return;
+
+    try {
+      const results = await assessResources(names, state.description, state.environment, requestOptions());
+      const byKey = new Map(results.map(r => [resourceKey(r.name), r]));
+      setState(prev => ({
+        ...prev,
+        resources: prev.resources.map(r => {
+          const result = getResourceKeys(r).map(key => byKey.get(key)).find(Boolean);
+          return result && !r.status ? { ...r, status: result.status, quantity: r.quantity ?? result.quantity } : r;
+        })
+      }));
+    } catch (err) {
+      // Statuses are a convenience; the plan is fully usable without them
+      if (!isAbortError(err)) console.error(err);
+    }
+  };
+
+  // Spelling can't tell that "锤子" is "Hammer": once a plan mixes languages, the model pairs new names with old ones
+  const linkTranslatedResources = async (names: string[]) => {
+    const fresh = names.filter(name => !findResource(state.resources, name));
+    const translated = state.resources.filter(r => r.language && r.language !== state.language);
+    if (fresh.length === 0 || translated.length === 0) return;
+
+    try {
+      const pairs = await matchResourceAliases(fresh, translated.map(r => r.name), requestOptions());
+      if (pairs.length === 0) return;
+      setState(prev => ({
+        ...prev,
+        resources: pairs.reduce((resources, pair) => {
+          const existing = findResource(resources, pair.existing);
+          const added = findResource(resources, pair.name);
+          // The older resource keeps its id, status and price under the current language's name
+          return existing && added ? mergeResources(resources, existing.id, added.id, true) : resources;
+        }, prev.resources)
+      }));
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
+    }
+  };
+
+  const handleMergeResources = (targetId: string, sourceId: string) => {
+    const source = state.resources.find(r => r.id === sourceId);
+    commitState(prev => ({
+      ...prev,
+      resources: mergeResources(prev.resources, targetId, sourceId),
+      selectedResourceId: prev.selectedResourceId === sourceId ? targetId : prev.selectedResourceId,
+      resourceTrail: prev.resourceTrail?.map(id => id === sourceId ? targetId : id)
+    }), { kind: 'merge', detail: source?.name });
+  };
+
+  const handleSplitResource = (resourceId: string, alias: string) => {
+    commitState(prev => ({
+      ...prev,
+      resources: splitResourceAlias(prev.resources, resourceId, alias)
+    }), { kind: 'split', detail: alias });
+  };
+
+  const handleUpdateResource = (resourceId: string, updates: Partial<Resource>) => {
+    const resource = state.resources.find(r => r.id === resourceId);
+    updateResourceInState(resourceId, updates, { kind: 'inventory', detail: resource?.name });
   };
 
   const handleReset = () => {
+    cancelPendingRequests();
+    setIsComparing(false);
+    setCompareSelection([]);
+    if (state.goalId) saveGoal(state.goalId, state);
+    setActiveGoalId(null);
+    setShowHistory(false);
     setState(prev => ({
       ...prev,
+      goalId: null,
+      history: undefined,
+      futureProposal: undefined,
       stage: 'INPUT',
       strategies: [],
       resources: [],
       description: '',
       quantification: '',
-      environment: ''
+      environment: '',
+      budgetCap: undefined,
+      translationMemory: undefined
     }));
   };
 
+  // --- Saved Goal Library ---
+
+  const handleOpenLibrary = () => {
+    cancelPendingRequests();
+    setIsComparing(false);
+    setCompareSelection([]);
+    if (state.goalId) saveGoal(state.goalId, state);
+    setActiveGoalId(null);
+    setSavedGoals(listSavedGoals());
+    setState(prev => ({
+      ...initialState,
+      language: prev.language,
+      stage: 'LIBRARY'
+    }));
+  };
+
+  const handleOpenGoal = (goalId: string) => {
+    const goal = loadGoal(goalId);
+    if (!goal) return;
+    setActiveGoalId(goalId);
+    setState({ ...goal, language: state.language });
+  };
+
+  const handleRenameGoal = (goalId: string, name: string) => {
+    renameGoal(goalId, name);
+    setSavedGoals(listSavedGoals());
+  };
+
+  const handleDuplicateGoal = (goalId: string) => {
+    duplicateGoal(goalId, t.copySuffix);
+    setSavedGoals(listSavedGoals());
+  };
+
+  const handleDeleteGoal = (goalId: string) => {
+    deleteGoal(goalId);
+    setSavedGoals(listSavedGoals());
+  };
+
   const handleBackToSelection = () => {
+    cancelPendingRequests();
     setState(prev => ({
       ...prev,
       stage: 'SELECTION',
-      selectedStrategyId: null
+      selectedStrategyId: null,
+      futureProposal: undefined
     }));
   };
 
   // --- New Handlers for Edit/Check/Regenerate ---
 
   const handleToggleComplete = (step: Step) => {
-     updateStepInState(step.id, { isCompleted: !step.isCompleted });
+     // Completion cascades to sub-steps and rolls up to parents
+     commitState(prev => ({
+       ...prev,
+       strategies: prev.strategies.map(s => s.plan ? { ...s, plan: setStepCompletion(s.plan, step.id, !step.isCompleted) } : s)
+     }), { kind: 'complete', detail: step.instruction });
   };
 
   const handleRegenerateStep = async (step: Step) => {
      updateStepInState(step.id, { loading: true });
      try {
        const context = `${state.description} ${state.environment}`;
-       const result = await regenerateStepText(step.instruction, context, state.language);
-       
-       updateStepInState(step.id, { 
-         loading: false, 
-         instruction: result.instruction,
-         resources: result.resources,
-         subSteps: undefined, // Clear old substeps
-         isExpanded: false
-       });
+       const result = await regenerateStepText(step.instruction, context, budget, state.language, { ...requestOptions(), bypassCache: true });
        
-       // Add new resources if found
-       if (result.resources.length > 0) {
-          setState(prev => ({
-             ...prev,
-             resources: extractResourcesFromPlan([{type: 'single', step: { ...step, resources: result.resources }}], prev.resources)
-          }));
-       }
+       commitState(prev => ({
+         ...prev,
+         strategies: applyStepUpdates(prev.strategies, step.id, { 
+           loading: false, 
+           instruction: result.instruction,
+           resources: result.resources,
+           durationDays: result.durationDays,
+           effortHours: result.effortHours,
+           costEstimate: result.costEstimate,
+           subSteps: undefined, // Clear old substeps
+           isExpanded: false
+         }),
+         // Add new resources if found
+         resources: registerResourceNames(prev.resources, result.resources, state.language)
+       }), { kind: 'regenerate', detail: step.instruction });
+       linkTranslatedResources(result.resources);
      } catch(e) {
-       console.error(e);
+       reportError(e);
        updateStepInState(step.id, { loading: false });
      }
   };
 
-  const handleEditStep = async (step: Step, newText: string, mode: 'save' | 'substeps' | 'future') => {
-      // 1. Update the text immediately
-      // Extract pseudo-resources from bracketed text
-      const regex = /\[(.*?)\]/g;
-      const foundResources = [];
-      let match;
-      while ((match = regex.exec(newText)) !== null) {
-         foundResources.push(match[1]);
-      }
+  // Rewrites one of the priciest steps when the plan is over budget
+  const handleMakeCheaper = async (step: Step) => {
+     updateStepInState(step.id, { loading: true });
+     try {
+       const context = `${state.description} ${state.environment}`;
+       const result = await regenerateCheaperStep(step.instruction, step.costEstimate || 0, context, budget, state.language, { ...requestOptions(), bypassCache: true });
 
-      updateStepInState(step.id, { 
-          instruction: newText, 
-          resources: foundResources
-      });
+       commitState(prev => ({
+         ...prev,
+         strategies: applyStepUpdates(prev.strategies, step.id, {
+           loading: false,
+           instruction: result.instruction,
+           resources: result.resources,
+           costEstimate: result.costEstimate,
+           durationDays: result.durationDays ?? step.durationDays,
+           effortHours: result.effortHours ?? step.effortHours
+         }),
+         resources: registerResourceNames(prev.resources, result.resources, state.language)
+       }), { kind: 'cheaper', detail: step.instruction });
+     } catch(e) {
+       reportError(e);
+       updateStepInState(step.id, { loading: false });
+     }
+  };
 
-      // Update global resources list
-      if (foundResources.length > 0) {
-        setState(prev => ({
-            ...prev,
-            resources: extractResourcesFromPlan([{type: 'single', step: { ...step, resources: foundResources }}], prev.resources)
-         }));
-      }
+  const handleEstimateStep = (step: Step, estimate: StepEstimate) => {
+     updateStepInState(step.id, estimate, { kind: 'estimate', detail: step.instruction });
+  };
+
+  const handleScheduleStep = (step: Step, date: string | undefined) => {
+     updateStepInState(step.id, { scheduledDate: date }, { kind: 'schedule', detail: step.instruction });
+  };
+
+  // Structural edits (add, delete, move, indent, regroup) of the active plan
+  const handleRestructurePlan = (edit: PlanEdit) => {
+    const activeStrategy = state.strategies.find(s => s.id === state.selectedStrategyId);
+    if (!activeStrategy?.plan) return;
+    // Moving the first step up, indenting without a previous step, etc. change nothing
+    if (applyPlanEdit(activeStrategy.plan, edit) === activeStrategy.plan) return;
+
+    const step = edit.type === 'add' ? edit.step : findStep(activeStrategy.plan, edit.stepId);
+    commitState(prev => ({
+      ...prev,
+      strategies: prev.strategies.map(s => s.id === activeStrategy.id && s.plan ? { ...s, plan: applyPlanEdit(s.plan, edit) } : s),
+      // A pending proposal was diffed against positions that just shifted
+      futureProposal: prev.futureProposal?.strategyId === activeStrategy.id ? undefined : prev.futureProposal
+    }), { kind: edit.type === 'add' || edit.type === 'delete' ? edit.type : 'move', detail: step?.instruction });
+  };
+
+  const handleEditStep = async (step: Step, newText: string, mode: 'save' | 'substeps' | 'future') => {
+      // 1. Update the text immediately
+      const foundResources = extractBracketedResources(newText);
+
+      commitState(prev => ({
+          ...prev,
+          strategies: applyStepUpdates(prev.strategies, step.id, { 
+              instruction: newText, 
+              resources: foundResources
+          }),
+          // Update global resources list
+          resources: registerResourceNames(prev.resources, foundResources, state.language)
+      }), { kind: 'edit', detail: step.instruction });
 
       // 2. Handle specific modes
       if (mode === 'substeps') {
@@ -253,55 +621,140 @@ const App: React.FC = () => {
       const activeStrategy = state.strategies.find(s => s.id === state.selectedStrategyId);
       if (!activeStrategy || !activeStrategy.plan) return;
 
-      // Find index of the edited step
-      const planIndex = activeStrategy.plan.findIndex(item => 
+      const ancestors = getStepAncestors(activeStrategy.plan, stepId);
+      if (!ancestors) return;
+      const parent = ancestors[ancestors.length - 1];
+
+      // The edited step's siblings: root plan items, or the parent's sub-steps as single items
+      const siblings: PlanItem[] = parent
+        ? (parent.subSteps || []).map((step): PlanItem => ({ type: 'single', step }))
+        : activeStrategy.plan;
+      const index = siblings.findIndex(item =>
           item.type === 'single' ? item.step.id === stepId : item.group.steps.some(s => s.id === stepId)
       );
 
-      if (planIndex === -1 || planIndex === activeStrategy.plan.length - 1) return; // Not found or last step
+      if (index === siblings.length - 1) return; // Last step, nothing follows
 
-      const itemsToRegenerateCount = activeStrategy.plan.length - 1 - planIndex;
-      const contextSteps = activeStrategy.plan.slice(0, planIndex + 1).map(item => {
+      const currentTail = siblings.slice(index + 1);
+      const contextSteps = siblings.slice(0, index + 1).map(item => {
          if (item.type === 'single') return item.step.instruction;
          return item.group.steps.map(s => s.instruction).join(" AND ");
       });
-      
-      // Show loading on subsequent steps
-      const updatedPlanLoading = activeStrategy.plan.map((item, idx) => {
-          if (idx > planIndex) {
-             if (item.type === 'single') return { ...item, step: { ...item.step, loading: true }};
-             // Simplified: parallel groups loading
-             return item;
-          }
-          return item;
-      });
-      
-      setState(prev => ({
+
+      // Show loading on every subsequent step, including each step of a parallel group
+      const tailStepIds = getRootSteps(currentTail).map(s => s.id);
+      const setFutureLoading = (loading: boolean) => setState(prev => ({
         ...prev,
-        strategies: prev.strategies.map(s => s.id === state.selectedStrategyId ? { ...s, plan: updatedPlanLoading } : s)
+        strategies: tailStepIds.reduce((strategies, id) => applyStepUpdates(strategies, id, { loading }), prev.strategies)
       }));
 
+      setFutureLoading(true);
+      setState(prev => ({ ...prev, futureProposal: undefined }));
+
       try {
-         const newFutureItems = await regenerateFutureSteps(state.description, contextSteps, currentText, itemsToRegenerateCount, state.language);
-         
-         const finalPlan = [...activeStrategy.plan.slice(0, planIndex + 1), ...newFutureItems];
-         
+         const newFutureItems = await regenerateFutureSteps(
+           state.description,
+           ancestors.map(a => a.instruction),
+           contextSteps,
+           currentText,
+           currentTail.length,
+           budget,
+           state.language,
+           { ...requestOptions(), bypassCache: true }
+         );
+         const diff = diffPlanItems(currentTail, newFutureItems);
+
+         // Nothing changes yet: the new tail is proposed as a diff for the user to review
+         setFutureLoading(false);
          setState(prev => ({
             ...prev,
-            strategies: prev.strategies.map(s => s.id === state.selectedStrategyId ? { ...s, plan: finalPlan } : s),
-            resources: extractResourcesFromPlan(newFutureItems, prev.resources)
+            futureProposal: {
+              strategyId: activeStrategy.id,
+              parentStepId: parent?.id,
+              startIndex: index + 1,
+              anchorText: currentText,
+              diff,
+              accepted: diff.map(() => true)
+            }
          }));
 
       } catch(e) {
-          console.error(e);
-          // Revert loading state
-          setState(prev => ({
-             ...prev,
-             strategies: prev.strategies.map(s => s.id === state.selectedStrategyId ? { ...s, plan: activeStrategy.plan } : s)
-          }));
+          reportError(e);
+          setFutureLoading(false);
       }
   };
 
+  // --- Proposed Future Steps & Plan Versions ---
+
+  const handleToggleProposalItem = (index: number) => {
+      setState(prev => prev.futureProposal ? {
+        ...prev,
+        futureProposal: { ...prev.futureProposal, accepted: prev.futureProposal.accepted.map((a, i) => i === index ? !a : a) }
+      } : prev);
+  };
+
+  const handleDiscardProposal = () => {
+      setState(prev => ({ ...prev, futureProposal: undefined }));
+  };
+
+  const createPlanVersion = (name: string, plan: PlanItem[]): PlanVersion => ({
+      id: `version-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      name,
+      createdAt: Date.now(),
+      plan
+  });
+
+  // Applies the accepted items and keeps the result as a named version
+  const handleApplyProposal = (versionName: string) => {
+      const proposal = state.futureProposal;
+      if (!proposal) return;
+
+      commitState(prev => {
+        const s = prev.strategies.find(strategy => strategy.id === proposal.strategyId);
+        if (!s || !s.plan) return prev;
+        const currentPlan = s.plan;
+        const parent = proposal.parentStepId ? findStep(currentPlan, proposal.parentStepId) : undefined;
+        // The tail as it is now, not as it was when the proposal was made
+        const liveTail = parent
+          ? (parent.subSteps || []).slice(proposal.startIndex).map((step): PlanItem => ({ type: 'single', step }))
+          : currentPlan.slice(proposal.startIndex);
+        const newTail = applyPlanDiff(proposal.diff, proposal.accepted, liveTail);
+        const plan = parent
+          ? applyStepUpdates([s], parent.id, { subSteps: [...(parent.subSteps || []).slice(0, proposal.startIndex), ...getRootSteps(newTail)] })[0].plan!
+          : [...currentPlan.slice(0, proposal.startIndex), ...newTail];
+        // The first accepted change also keeps the plan it started from
+        const versions = s.versions && s.versions.length > 0 ? s.versions : [createPlanVersion(t.versionOriginal, currentPlan)];
+        return {
+          ...prev,
+          futureProposal: undefined,
+          strategies: prev.strategies.map(other => other.id === s.id
+            ? { ...s, plan, versions: [...versions, createPlanVersion(versionName.trim() || t.versionUnnamed, plan)] }
+            : other),
+          resources: extractResourcesFromPlan(newTail, prev.resources)
+        };
+      }, { kind: 'future', detail: proposal.anchorText });
+      const acceptedItems = proposal.diff.filter((entry, idx) => entry.proposed && proposal.accepted[idx]).map(entry => entry.proposed!);
+      linkTranslatedResources(collectPlanResources(acceptedItems));
+  };
+
+  const handleRestoreVersion = (version: PlanVersion) => {
+      if (!activeStrategy) return;
+      commitState(prev => ({
+        ...prev,
+        futureProposal: undefined,
+        strategies: prev.strategies.map(s => s.id === activeStrategy.id ? { ...s, plan: version.plan } : s),
+        resources: extractResourcesFromPlan(version.plan, prev.resources)
+      }), { kind: 'restore', detail: version.name });
+  };
+
+  const handleDeleteVersion = (versionId: string) => {
+      if (!activeStrategy) return;
+      commitState(prev => ({
+        ...prev,
+        strategies: prev.strategies.map(s => s.id === activeStrategy.id ? { ...s, versions: (s.versions || []).filter(v => v.id !== versionId) } : s)
+      }));
+  };
+
   const handleExpandStep = async (targetStep: Step, contextStrategyTitle: string) => {
     if (targetStep.subSteps && targetStep.subSteps.length > 0) {
       updateStepInState(targetStep.id, { isExpanded: !targetStep.isExpanded });
@@ -316,69 +769,81 @@ const App: React.FC = () => {
     try {
       const envContext = state.environment ? ` [Environment: ${state.environment}]` : '';
       const context = `${state.description}${envContext} (Strategy: ${contextStrategyTitle})`;
-      const subSteps = await expandStep(targetStep.instruction, context, state.language);
+      const subSteps = inheritCompletion(targetStep, await expandStep(targetStep.instruction, context, budget, state.language, requestOptions()));
       
-      // Update resources
-      let updatedResources = [...state.resources];
-      const seen = new Set(updatedResources.map(r => r.name.toLowerCase()));
-      subSteps.forEach(s => {
-          s.resources.forEach(r => {
-            const clean = r.replace(/[\[\]]/g, '').trim();
-            if (clean && !seen.has(clean.toLowerCase())) {
-                seen.add(clean.toLowerCase());
-                updatedResources.push({
-                    id: `res-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                    name: clean,
-                    isExpanded: false,
-                    language: state.language
-                });
-            }
-          });
-      });
-
-      setState(prev => ({
+      commitState(prev => ({
         ...prev,
-        resources: updatedResources
-      }));
-
-      updateStepInState(targetStep.id, {
-        loading: false,
-        isExpanded: true,
-        subSteps
-      });
+        strategies: applyStepUpdates(prev.strategies, targetStep.id, {
+          loading: false,
+          isExpanded: true,
+          subSteps
+        }),
+        resources: extractResourcesFromPlan(subSteps.map((step): PlanItem => ({ type: 'single', step })), prev.resources)
+      }), { kind: 'expand', detail: targetStep.instruction });
+      linkTranslatedResources(collectPlanResources(subSteps.map((step): PlanItem => ({ type: 'single', step }))));
     } catch (err) {
-      console.error(err);
+      reportError(err);
       updateStepInState(targetStep.id, { loading: false });
     }
   };
 
-  const handleResourceClick = (resourceName: string) => {
-    const cleanName = resourceName.replace(/[\[\]]/g, '').trim();
-    const existing = state.resources.find(r => r.name.toLowerCase() === cleanName.toLowerCase());
+  // Opens the step list on a step, expanding its ancestors, and highlights it for a moment
+  const handleRevealStep = (stepId: string) => {
+    const plan = state.strategies.find(s => s.id === state.selectedStrategyId)?.plan;
+    const ancestors = plan && getStepAncestors(plan, stepId);
+    if (!ancestors) return;
+    setState(prev => ({
+      ...prev,
+      strategies: ancestors.reduce((strategies, ancestor) => applyStepUpdates(strategies, ancestor.id, { isExpanded: true }), prev.strategies)
+    }));
+    setRoadmapView('steps');
+    setRevealStepId(stepId);
+    setTimeout(() => setRevealStepId(current => current === stepId ? null : current), REVEAL_HIGHLIGHT_MS);
+  };
+
+  // Opening a resource from the plan starts a new trail
+  const handleResourceClick = (resourceName: string) => openResource(resourceName, []);
+
+  // Sub-resources named in an acquisition plan open one level deeper, or go back up a loop
+  const handleOpenSubResource = (resourceName: string) => {
+    const current = state.selectedResourceId;
+    const next = findResource(state.resources, cleanResourceName(resourceName));
+    openResource(resourceName, current ? enterResource(state.resourceTrail || [], current, next?.id) : []);
+  };
+
+  const handleResourceBack = (index: number) => {
+    setState(prev => {
+      const trail = prev.resourceTrail || [];
+      if (!trail[index]) return prev;
+      return { ...prev, selectedResourceId: trail[index], resourceTrail: trail.slice(0, index) };
+    });
+  };
+
+  const openResource = (resourceName: string, trail: string[]) => {
+    const cleanName = cleanResourceName(resourceName);
+    const existing = findResource(state.resources, cleanName);
 
     if (existing) {
-      setState(prev => ({ ...prev, selectedResourceId: existing.id }));
+      setState(prev => ({ ...prev, selectedResourceId: existing.id, resourceTrail: trail }));
       // If acquisition steps missing OR language mismatch, fetch
       if (!existing.acquisitionSteps || existing.language !== state.language) {
         handleFetchResourcePlan(existing.id, existing.name);
       }
     } else {
-      const newRes: Resource = {
-         id: `res-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
-         name: cleanName,
-         isExpanded: true,
-         loading: true,
-         language: state.language
-      };
+      const newRes: Resource = { ...createResource(cleanName, state.language), isExpanded: true, loading: true };
       
       setState(prev => ({
         ...prev,
         resources: [newRes, ...prev.resources],
-        selectedResourceId: newRes.id
+        selectedResourceId: newRes.id,
+        resourceTrail: trail
       }));
 
-      generateResourcePlan(cleanName, state.language).then(steps => {
-        updateResourceInState(newRes.id, { loading: false, acquisitionSteps: steps, language: state.language });
+      generateResourcePlan(cleanName, budget, state.language, requestOptions()).then(steps => {
+        updateResourceInState(newRes.id, { loading: false, acquisitionSteps: steps, language: state.language, costEstimate: getAcquisitionCost(steps) }, { kind: 'resource', detail: cleanName });
+      }).catch(err => {
+        reportError(err);
+        updateResourceInState(newRes.id, { loading: false });
       });
     }
   };
@@ -386,140 +851,251 @@ const App: React.FC = () => {
   const handleFetchResourcePlan = async (resourceId: string, resourceName: string) => {
     updateResourceInState(resourceId, { loading: true });
     try {
-      const steps = await generateResourcePlan(resourceName, state.language);
-      updateResourceInState(resourceId, { loading: false, acquisitionSteps: steps, language: state.language });
+      const steps = await generateResourcePlan(resourceName, budget, state.language, requestOptions());
+      // A price the user entered wins over the one derived from the acquisition steps
+      const costEstimate = state.resources.find(r => r.id === resourceId)?.costEstimate ?? getAcquisitionCost(steps);
+      updateResourceInState(resourceId, { loading: false, acquisitionSteps: steps, language: state.language, costEstimate }, { kind: 'resource', detail: resourceName });
     } catch (e) {
+      reportError(e);
       updateResourceInState(resourceId, { loading: false });
     }
   };
 
-  const updateStepInState = (stepId: string, updates: Partial<Step>) => {
+  // Like applyStepUpdates, for the steps of one resource's acquisition plan
+  const applyAcquisitionStepUpdates = (resources: Resource[], resourceId: string, stepId: string, updates: Partial<Step>): Resource[] => {
+    const processSteps = (steps: Step[]): Step[] => steps.map(step => {
+      if (step.id === stepId) return { ...step, ...updates };
+      if (step.subSteps) return { ...step, subSteps: processSteps(step.subSteps) };
+      return step;
+    });
+    return resources.map(r => r.id === resourceId && r.acquisitionSteps ? { ...r, acquisitionSteps: processSteps(r.acquisitionSteps) } : r);
+  };
+
+  const handleToggleAcquisitionStep = (resourceId: string, step: Step) => {
+    commitState(prev => ({
+      ...prev,
+      resources: prev.resources.map(r => {
+        if (r.id !== resourceId || !r.acquisitionSteps) return r;
+        const plan = setStepCompletion(r.acquisitionSteps.map((s): PlanItem => ({ type: 'single', step: s })), step.id, !step.isCompleted);
+        return { ...r, acquisitionSteps: getRootSteps(plan) };
+      })
+    }), { kind: 'complete', detail: step.instruction });
+  };
+
+  const handleExpandAcquisitionStep = async (resourceId: string, step: Step) => {
+    const resource = state.resources.find(r => r.id === resourceId);
+    if (!resource) return;
+    if (step.subSteps && step.subSteps.length > 0) {
+      setState(prev => ({ ...prev, resources: applyAcquisitionStepUpdates(prev.resources, resourceId, step.id, { isExpanded: !step.isExpanded }) }));
+      return;
+    }
+
+    setState(prev => ({ ...prev, resources: applyAcquisitionStepUpdates(prev.resources, resourceId, step.id, { loading: true }) }));
+    try {
+      const context = `${state.description} (Acquiring: ${resource.name})`;
+      const subSteps = inheritCompletion(step, await expandStep(step.instruction, context, budget, state.language, requestOptions()));
+      commitState(prev => ({
+        ...prev,
+        resources: applyAcquisitionStepUpdates(prev.resources, resourceId, step.id, { loading: false, isExpanded: true, subSteps })
+      }), { kind: 'expand', detail: step.instruction });
+    } catch (err) {
+      reportError(err);
+      setState(prev => ({ ...prev, resources: applyAcquisitionStepUpdates(prev.resources, resourceId, step.id, { loading: false }) }));
+    }
+  };
+
+  // Applies a state update; passing a change records the previous plan so it can be undone
+  const commitState = (update: (prev: GoalState) => GoalState, change?: PlanChange) => {
     setState(prev => {
-      const newStrategies = prev.strategies.map(strat => {
-        if (!strat.plan) return strat;
-        
-        const processSteps = (steps: Step[]): Step[] => {
-          return steps.map(step => {
-            if (step.id === stepId) return { ...step, ...updates };
-            if (step.subSteps) return { ...step, subSteps: processSteps(step.subSteps) };
-            return step;
-          });
-        };
+      // Structural changes can leave a checked step with open sub-steps, or the reverse
+      const next = normalizeGoalCompletion(update(prev));
+      // An update that found nothing to change leaves no history entry
+      return change && next !== prev ? recordChange(prev, next, change) : next;
+    });
+  };
 
-        const newPlan = strat.plan.map((item): PlanItem => {
-          if (item.type === 'single') {
-             if (item.step.id === stepId) {
-                return { ...item, step: { ...item.step, ...updates } };
-             }
-             if (item.step.subSteps) {
-                return { ...item, step: { ...item.step, subSteps: processSteps(item.step.subSteps) } };
-             }
-             return item;
-          } else {
-             const updatedGroupSteps = processSteps(item.group.steps);
-             return { ...item, group: { ...item.group, steps: updatedGroupSteps } };
-          }
+  const applyStepUpdates = (strategies: Strategy[], stepId: string, updates: Partial<Step>): Strategy[] => {
+    return strategies.map(strat => {
+      if (!strat.plan) return strat;
+      
+      const processSteps = (steps: Step[]): Step[] => {
+        return steps.map(step => {
+          if (step.id === stepId) return { ...step, ...updates };
+          if (step.subSteps) return { ...step, subSteps: processSteps(step.subSteps) };
+          return step;
         });
+      };
 
-        return { ...strat, plan: newPlan };
+      const newPlan = strat.plan.map((item): PlanItem => {
+        if (item.type === 'single') {
+           if (item.step.id === stepId) {
+              return { ...item, step: { ...item.step, ...updates } };
+           }
+           if (item.step.subSteps) {
+              return { ...item, step: { ...item.step, subSteps: processSteps(item.step.subSteps) } };
+           }
+           return item;
+        } else {
+           const updatedGroupSteps = processSteps(item.group.steps);
+           return { ...item, group: { ...item.group, steps: updatedGroupSteps } };
+        }
       });
-      return { ...prev, strategies: newStrategies };
+
+      return { ...strat, plan: newPlan };
     });
   };
 
-  const updateResourceInState = (resId: string, updates: Partial<Resource>) => {
-    setState(prev => ({
+  const updateStepInState = (stepId: string, updates: Partial<Step>, change?: PlanChange) => {
+    commitState(prev => ({ ...prev, strategies: applyStepUpdates(prev.strategies, stepId, updates) }), change);
+  };
+
+  const updateResourceInState = (resId: string, updates: Partial<Resource>, change?: PlanChange) => {
+    commitState(prev => ({
       ...prev,
       resources: prev.resources.map(r => r.id === resId ? { ...r, ...updates } : r)
-    }));
+    }), change);
   };
 
-  const toggleLanguage = () => {
+  const handleLanguageChange = (language: Language) => {
     setState(prev => ({
       ...prev,
-      language: prev.language === 'en' ? 'zh' : 'en',
+      language,
       error: null
     }));
+    const active = state.strategies.find(s => s.id === state.selectedStrategyId);
+    if (state.stage === 'PROCESS' && active) translateStrategyPlan(active, language);
   };
 
-  const generatePlainText = () => {
-    if (!activeStrategy) return '';
-    
-    let text = `${t.appTitle} Plan\n\n`;
-    text += `${t.labelGoal}: ${state.description}\n`;
-    if (state.quantification) text += `${t.labelSpecifics}: ${state.quantification}\n`;
-    if (state.environment) text += `${t.labelEnvironment}: ${state.environment}\n`;
-    text += `\n--------------------------------\n\n`;
-    
-    text += `${t.headerSelected}: ${activeStrategy.title}\n`;
-    text += `${activeStrategy.description}\n\n`;
-    
-    text += `${t.headerRoadmap}:\n`;
+  // Rewrites an existing plan in another language; ids, edits, sub-steps and progress are kept
+  const translateStrategyPlan = async (strategy: Strategy, language: Language) => {
+    const from = strategy.planLanguage;
+    if (!strategy.plan || strategy.plan.length === 0 || !from || from === language) return;
 
-    activeStrategy.plan?.forEach((item, idx) => {
-       if (item.type === 'single') {
-          const check = item.step.isCompleted ? '[x]' : '[ ]';
-          text += `${idx + 1}. ${check} ${item.step.instruction}\n`;
-           if (item.step.subSteps) {
-              item.step.subSteps.forEach((sub) => {
-                 const subCheck = sub.isCompleted ? '[x]' : '[ ]';
-                 text += `   - ${subCheck} ${sub.instruction}\n`;
-              });
-           }
-       } else {
-          text += `${idx + 1}. ${t.simultaneous}:\n`;
-          item.group.steps.forEach((step) => {
-             const check = step.isCompleted ? '[x]' : '[ ]';
-             text += `   - ${check} ${step.instruction}\n`;
-              if (step.subSteps) {
-                 step.subSteps.forEach((sub) => {
-                    const subCheck = sub.isCompleted ? '[x]' : '[ ]';
-                    text += `     * ${subCheck} ${sub.instruction}\n`;
-                 });
-              }
-          });
-       }
-    });
+    setState(prev => ({
+      ...prev,
+      strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, planLoading: true } : s)
+    }));
 
-    if (state.resources.length > 0) {
-        text += `\n--------------------------------\n\n`;
-        text += `${t.headerResources}:\n`;
-        state.resources.forEach(res => {
-           text += `\n[${res.name}]\n`;
-           if (res.acquisitionSteps) {
-               res.acquisitionSteps.forEach((step, idx) => {
-                   text += `${idx + 1}. ${step.instruction}\n`;
-               });
-           } else {
-               text += `(Plan not generated yet)\n`;
-           }
-        });
+    try {
+      const result = await translatePlan(strategy.plan, state.resources, from, language, state.translationMemory || [], requestOptions());
+      const translatedIds = new Set(result.resources.map(r => r.id));
+      commitState(prev => {
+        // The translation is applied to the plan as it is now, so edits made meanwhile are kept
+        const current = prev.strategies.find(s => s.id === strategy.id)?.plan || [];
+        const applied = applyPlanTranslation(current, prev.resources, result.translation, language);
+        return {
+          ...prev,
+          translationMemory: result.memory,
+          // Resources added meanwhile were not part of the translation and keep their language
+          resources: applied.resources.map((r, i) => translatedIds.has(r.id) ? r : prev.resources[i]),
+          strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, plan: applied.plan, planLanguage: language, planLoading: false } : s)
+        };
+      }, { kind: 'translate', detail: strategy.title });
+    } catch (err) {
+      reportError(err);
+      setState(prev => ({
+        ...prev,
+        strategies: prev.strategies.map(s => s.id === strategy.id ? { ...s, planLoading: false } : s)
+      }));
     }
-
-    return text;
   };
 
   const handleCopyPlan = () => {
-    const text = generatePlainText();
+    if (!activeStrategy) return;
+    const text = generatePlainText(state, activeStrategy, t);
     navigator.clipboard.writeText(text).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     });
   };
 
-  const handleDownloadPlan = () => {
-    const text = generatePlainText();
+  const downloadFile = (contents: string, type: string, fileName: string) => {
     const element = document.createElement("a");
-    const file = new Blob([text], {type: 'text/markdown'});
+    const file = new Blob([contents], {type});
     element.href = URL.createObjectURL(file);
-    element.download = "process-jinn-plan.md";
+    element.download = fileName;
     document.body.appendChild(element); // Required for this to work in FireFox
     element.click();
     document.body.removeChild(element);
   };
 
+  const handleDownloadPlan = () => {
+    if (!activeStrategy) return;
+    downloadFile(generatePlainText(state, activeStrategy, t), 'text/markdown', "process-jinn-plan.md");
+  };
+
+  const handleExportCalendar = () => {
+    if (!activeStrategy) return;
+    const ics = generateICS(activeStrategy, stepDates, `${t.appTitle}: ${activeStrategy.title}`);
+    downloadFile(ics, 'text/calendar', "process-jinn-plan.ics");
+  };
+
+  const handleExportJson = () => {
+    const doc = createPlanDocument(state);
+    downloadFile(JSON.stringify(doc, null, 2), 'application/json', "process-jinn-plan.json");
+  };
+
+  const handleImportJson = async (file: File) => {
+    try {
+      const imported = planDocumentToGoalState(parsePlanDocument(await file.text()));
+      if (state.goalId) saveGoal(state.goalId, state);
+      setActiveGoalId(imported.goalId);
+      setState(imported);
+    } catch (err) {
+      console.error(err);
+      setState(prev => ({ ...prev, error: t.errorImport }));
+    }
+  };
+
+  const handleImportPlan = async (file: File) => {
+    if (file.name.toLowerCase().endsWith('.json')) {
+      handleImportJson(file);
+      return;
+    }
+    try {
+      const imported = parsePlanMarkdown(await file.text());
+      const goalId = createGoalId();
+      setActiveGoalId(goalId);
+
+      setState(prev => ({
+        ...prev,
+        goalId,
+        description: imported.description,
+        quantification: imported.quantification,
+        environment: imported.environment,
+        language: imported.language,
+        strategies: [imported.strategy],
+        resources: extractResourcesFromPlan(imported.strategy.plan || [], imported.resources),
+        selectedStrategyId: imported.strategy.id,
+        selectedResourceId: null,
+        resourceTrail: undefined,
+        stage: 'PROCESS',
+        loading: false,
+        error: null,
+        history: undefined,
+        futureProposal: undefined
+      }));
+    } catch (err) {
+      console.error(err);
+      setState(prev => ({ ...prev, error: t.errorImport }));
+    }
+  };
+
   const selectedResource = state.resources.find(r => r.id === state.selectedResourceId) || null;
+  const acquisitionCycle = useMemo(
+    () => state.selectedResourceId ? findAcquisitionCycle(state.resources, state.selectedResourceId) : null,
+    [state.resources, state.selectedResourceId]
+  );
+  const resourceStatuses = useMemo(() => getResourceStatuses(state.resources), [state.resources]);
   const activeStrategy = state.strategies.find(s => s.id === state.selectedStrategyId);
+  const resourceUsage = useMemo(
+    () => getResourceUsage(activeStrategy?.plan || [], state.resources),
+    [activeStrategy?.plan, state.resources]
+  );
+  const stepDates = useMemo(
+    () => schedulePlanDates(activeStrategy?.plan || [], state.startDate),
+    [activeStrategy?.plan, state.startDate]
+  );
 
   // --- Render Sections ---
 
@@ -534,14 +1110,33 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-4">
-          <button 
-            onClick={toggleLanguage}
-            className="text-sm font-semibold text-slate-600 hover:text-indigo-600 px-3 py-1.5 rounded-md hover:bg-slate-100 transition-colors border border-transparent hover:border-indigo-100"
+          {state.stage !== 'LIBRARY' && (
+            <button 
+              onClick={handleOpenLibrary}
+              className="flex items-center gap-1.5 text-sm font-semibold text-slate-600 hover:text-indigo-600 px-3 py-1.5 rounded-md hover:bg-slate-100 transition-colors border border-transparent hover:border-indigo-100"
+            >
+              <Library className="w-4 h-4" /> {t.btnLibrary}
+            </button>
+          )}
+
+          <select
+            value={state.language}
+            onChange={(e) => handleLanguageChange(e.target.value as Language)}
+            aria-label={t.labelLanguage}
+            className="text-sm font-semibold text-slate-600 hover:text-indigo-600 px-3 py-1.5 rounded-md hover:bg-slate-100 transition-colors border border-transparent hover:border-indigo-100 bg-transparent outline-none cursor-pointer"
+          >
+            {LANGUAGES.map(code => <option key={code} value={code}>{getLocale(code).name}</option>)}
+          </select>
+
+          <button
+            onClick={() => setShowTelemetry(true)}
+            className="p-2 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+            title={t.telemetryTitle}
           >
-            {state.language === 'en' ? '中文' : 'English'}
+            <Activity className="w-4 h-4" />
           </button>
 
-          {state.stage !== 'INPUT' && state.stage !== 'PROCESSING' && (
+          {state.stage !== 'INPUT' && (
              <button 
                onClick={handleReset} 
                className="px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 hover:text-slate-900 transition-colors"
@@ -604,6 +1199,50 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <label htmlFor="budgetCap" className="block text-sm font-semibold text-slate-700">{t.labelBudget} <span className="text-slate-400 font-normal">{t.labelOptional}</span></label>
+              <input
+                id="budgetCap"
+                type="number"
+                min={0}
+                step="any"
+                placeholder={t.placeholderBudget}
+                className="w-full p-4 rounded-xl border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all"
+                value={state.budgetCap ?? ''}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  setState(prev => ({ ...prev, budgetCap: Number.isFinite(value) && value >= 0 ? value : undefined }));
+                }}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="currency" className="block text-sm font-semibold text-slate-700">{t.labelCurrency}</label>
+              <input
+                id="currency"
+                type="text"
+                maxLength={3}
+                placeholder={getLocale(state.language).currency}
+                className="w-full p-4 rounded-xl border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all uppercase"
+                value={state.currency || ''}
+                onChange={(e) => setState(prev => ({ ...prev, currency: e.target.value.toUpperCase().replace(/[^A-Z]/g, '') || undefined }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="strategyCount" className="text-sm font-semibold text-slate-700">{t.labelStrategyCount}</label>
+            <select
+              id="strategyCount"
+              value={strategyCount}
+              onChange={(e) => setState(prev => ({ ...prev, strategyCount: Number(e.target.value) }))}
+              className="px-3 py-2 rounded-xl border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all text-sm"
+            >
+              {[2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+
           <button
             onClick={handleGenerate}
             disabled={!state.description.trim()}
@@ -623,6 +1262,26 @@ const App: React.FC = () => {
         )}
       </div>
 
+      <div className="text-center">
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".md,.txt,.json,text/markdown,text/plain,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImportPlan(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-500 hover:text-indigo-600 rounded-full hover:bg-white border border-transparent hover:border-slate-200 transition-colors"
+        >
+          <Upload className="w-4 h-4" /> {t.btnImportPlan}
+        </button>
+      </div>
+
       <div className="text-center">
         <p className="text-sm font-medium text-slate-400 uppercase tracking-wider mb-4">{t.examplesLabel}</p>
         <div className="flex flex-wrap justify-center gap-2">
@@ -640,31 +1299,19 @@ const App: React.FC = () => {
     </div>
   );
 
-  const renderProcessingScreen = () => (
-    <div className="max-w-xl mx-auto pt-32 text-center animate-in fade-in duration-700">
-       <div className="relative w-24 h-24 mx-auto mb-10">
-         <div className="absolute inset-0 border-[6px] border-slate-100 rounded-full"></div>
-         <div className="absolute inset-0 border-[6px] border-indigo-500 rounded-full border-t-transparent animate-spin"></div>
-         <div className="absolute inset-0 flex items-center justify-center">
-            <Wand2 className="w-8 h-8 text-indigo-500 animate-pulse" />
-         </div>
-       </div>
-       <h2 className="text-2xl font-bold text-slate-800 mb-3 min-h-[2rem]">
-         {state.selectedStrategyId ? t.loadingPlan : LOADING_MESSAGES[loadingMsgIndex]}
-       </h2>
-       <p className="text-slate-500">
-         {state.selectedStrategyId ? "" : "This might take a moment as we calculate the best path."}
-       </p>
-    </div>
-  );
-
   const renderSelectionScreen = () => (
     <div className="max-w-6xl mx-auto pt-8 space-y-10 animate-in slide-in-from-bottom-8 duration-500">
       <div className="text-center space-y-3">
         <h2 className="text-3xl font-bold text-slate-900">{t.selectionTitle}</h2>
-        <p className="text-slate-600 text-lg">{t.selectionSubtitle}</p>
+        <p className="text-slate-600 text-lg">{pluralize(t.selectionSubtitle, state.loading ? strategyCount : state.strategies.length, locale)}</p>
       </div>
 
+      {state.error && (
+        <div className="p-4 bg-red-50 text-red-600 text-sm text-center rounded-2xl border border-red-100">
+          {state.error}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {state.strategies.map((strategy, idx) => (
           <div 
@@ -686,16 +1333,114 @@ const App: React.FC = () => {
               <p className="text-slate-600 leading-relaxed">
                 {strategy.description}
               </p>
+              <StrategyCostBadge
+                strategy={strategy}
+                resources={state.resources}
+                budget={budget}
+                locale={locale}
+                labels={{ overBudget: t.budgetExceeded, rough: t.budgetRough }}
+              />
             </div>
+
+            {refineTargetId === strategy.id && (
+              <div className="px-8 pb-6 space-y-2" onClick={(e) => e.stopPropagation()}>
+                <textarea
+                  value={refineFeedback}
+                  onChange={(e) => setRefineFeedback(e.target.value)}
+                  placeholder={t.placeholderRefine}
+                  className="w-full p-2 text-sm text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none resize-none bg-slate-50"
+                  rows={2}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setRefineTargetId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg transition-colors" title={t.cancel}>
+                    <X className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRefineStrategy(strategy, refineFeedback)}
+                    disabled={!refineFeedback.trim()}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-lg text-xs font-medium transition-colors border border-indigo-200 disabled:opacity-50"
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" /> {t.btnApplyFeedback}
+                  </button>
+                </div>
+              </div>
+            )}
             
-            <div className="p-6 bg-slate-50/50 border-t border-slate-100 mt-auto">
+            <div className="p-6 bg-slate-50/50 border-t border-slate-100 mt-auto space-y-3">
+              <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => handleMoreStrategies('similar', strategy)}
+                  disabled={!!alternativesLoading || strategy.refining || state.loading}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {alternativesLoading === strategy.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+                  {t.btnMoreLikeThis}
+                </button>
+                <button
+                  onClick={() => { setRefineTargetId(strategy.id); setRefineFeedback(''); }}
+                  disabled={strategy.refining}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {strategy.refining ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Edit3 className="w-3.5 h-3.5" />}
+                  {t.btnRefine}
+                </button>
+              </div>
+              <label
+                className="flex items-center gap-2 text-xs font-semibold text-slate-500 cursor-pointer select-none"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <input
+                  type="checkbox"
+                  checked={compareSelection.includes(strategy.id)}
+                  disabled={!compareSelection.includes(strategy.id) && compareSelection.length >= MAX_COMPARE}
+                  onChange={() => toggleCompareSelection(strategy.id)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {t.compareToggle}
+              </label>
               <button className="w-full py-3 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl text-sm group-hover:bg-indigo-600 group-hover:text-white group-hover:border-transparent transition-all flex items-center justify-center gap-2 shadow-sm">
                 {t.btnSelect} <ArrowRight className="w-4 h-4" />
               </button>
             </div>
           </div>
         ))}
+        {state.loading && Array.from({ length: Math.max(strategyCount - state.strategies.length, 0) }, (_, idx) => (
+          <div key={`pending-${idx}`} className="bg-white rounded-2xl border border-slate-200 shadow-sm p-8 space-y-4 animate-pulse">
+            <div className="flex items-center gap-4">
+              <span className="w-10 h-10 rounded-xl bg-slate-100 flex items-center justify-center">
+                {idx === 0 && <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />}
+              </span>
+              <div className="h-5 bg-slate-100 rounded w-2/3"></div>
+            </div>
+            <div className="h-3 bg-slate-100 rounded"></div>
+            <div className="h-3 bg-slate-100 rounded w-5/6"></div>
+            <div className="h-3 bg-slate-100 rounded w-4/6"></div>
+          </div>
+        ))}
+      </div>
+      
+      <div className="text-center">
+        <button
+          onClick={() => handleMoreStrategies('different', null)}
+          disabled={!!alternativesLoading || state.loading}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-full text-sm font-medium hover:border-indigo-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all shadow-sm disabled:opacity-50"
+        >
+          {alternativesLoading === 'different' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shuffle className="w-4 h-4" />}
+          {t.btnSomethingDifferent}
+        </button>
       </div>
+
+      {compareSelection.length >= 2 && (
+        <div className="sticky bottom-6 flex justify-center animate-in fade-in slide-in-from-bottom-4">
+          <button
+            onClick={handleCompareStrategies}
+            className="flex items-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-full text-sm font-semibold shadow-xl hover:bg-indigo-600 transition-colors"
+          >
+            <Columns3 className="w-4 h-4" /> {t.btnCompare} ({compareSelection.length})
+          </button>
+        </div>
+      )}
       
       <div className="text-center">
          <button onClick={handleReset} className="text-slate-400 hover:text-slate-600 text-sm font-medium">
@@ -705,10 +1450,40 @@ const App: React.FC = () => {
     </div>
   );
 
+  const renderComparisonScreen = () => (
+    <StrategyComparison
+      strategies={state.strategies.filter(s => compareSelection.includes(s.id))}
+      resources={state.resources}
+      budget={budget}
+      locale={locale}
+      onChoose={handleChooseCompared}
+      onBack={() => setIsComparing(false)}
+      labels={{
+        title: t.compareTitle,
+        subtitle: t.compareSubtitle,
+        back: t.btnBack,
+        choose: t.btnSelect,
+        generating: t.generating,
+        unavailable: t.errorGeneric,
+        steps: t.compareSteps,
+        duration: t.totalDuration,
+        effort: t.totalEffort,
+        cost: t.compareCost,
+        overBudget: t.budgetExceeded,
+        resources: t.compareResources,
+        shared: t.compareShared,
+        risk: t.compareRisk,
+        riskLevels: { low: t.riskLow, medium: t.riskMedium, high: t.riskHigh },
+        daysShort: t.daysShort,
+        hoursShort: t.hoursShort
+      }}
+    />
+  );
+
   const renderProcessScreen = () => {
     if (!activeStrategy || !activeStrategy.plan) return null;
 
-    const isPanelOpen = !!selectedResource;
+    const isPanelOpen = !!selectedResource || showHistory;
 
     return (
       <div className="animate-in fade-in duration-500 pb-20">
@@ -721,6 +1496,58 @@ const App: React.FC = () => {
            </button>
 
            <div className="flex gap-2">
+              <div className="flex items-center bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+                <button
+                  onClick={() => setState(undo)}
+                  disabled={!canUndo(state)}
+                  className="px-3 py-2 text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title={`${t.btnUndo} (Ctrl+Z)`}
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setState(redo)}
+                  disabled={!canRedo(state)}
+                  className="px-3 py-2 text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title={`${t.btnRedo} (Ctrl+Shift+Z)`}
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className={`px-3 py-2 border-l border-slate-200 transition-colors ${showHistory ? 'bg-indigo-50 text-indigo-600' : 'text-slate-600 hover:bg-slate-50 hover:text-indigo-600'}`}
+                  title={t.historyTitle}
+                >
+                  <History className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                ref={importJsonInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportJson(file);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                onClick={() => importJsonInputRef.current?.click()}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-50 hover:border-indigo-200 hover:text-indigo-600 transition-all shadow-sm"
+                title={t.btnImportJson}
+              >
+                <Upload className="w-4 h-4" />
+                {t.btnImportJson}
+              </button>
+              <button
+                onClick={handleExportJson}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-50 hover:border-indigo-200 hover:text-indigo-600 transition-all shadow-sm"
+                title={t.btnExportJson}
+              >
+                <FileJson className="w-4 h-4" />
+                {t.btnExportJson}
+              </button>
               <button
                 onClick={handleCopyPlan}
                 className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-50 hover:border-indigo-200 hover:text-indigo-600 transition-all shadow-sm"
@@ -728,6 +1555,14 @@ const App: React.FC = () => {
                 {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
                 {copied ? t.copied : t.btnCopy}
               </button>
+              <button
+                onClick={handleExportCalendar}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-50 hover:border-indigo-200 hover:text-indigo-600 transition-all shadow-sm"
+                title={t.btnExportCalendar}
+              >
+                <CalendarDays className="w-4 h-4" />
+                {t.btnExportCalendar}
+              </button>
               <button
                 onClick={handleDownloadPlan}
                 className="flex items-center gap-2 px-4 py-2 bg-slate-800 border border-slate-800 text-white rounded-xl text-sm font-semibold hover:bg-slate-700 transition-all shadow-sm hover:shadow"
@@ -738,6 +1573,12 @@ const App: React.FC = () => {
            </div>
         </div>
 
+        {state.error && (
+          <div className="max-w-7xl mx-auto mb-6 p-4 bg-red-50 text-red-600 text-sm text-center rounded-2xl border border-red-100">
+            {state.error}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 relative transition-all duration-300">
           {/* Left Column: Process */}
           <div className={`${isPanelOpen ? 'lg:col-span-8' : 'lg:col-span-12'} space-y-6 transition-all duration-500`}>
@@ -748,60 +1589,335 @@ const App: React.FC = () => {
                  </div>
                  <h2 className="text-3xl font-bold text-slate-900 mb-3">{activeStrategy.title}</h2>
                  <p className="text-lg text-slate-600 leading-relaxed">{activeStrategy.description}</p>
+
+                 <label className="mt-4 inline-flex items-center gap-2 text-sm text-slate-500">
+                   <CalendarDays className="w-4 h-4 text-indigo-500" />
+                   <span className="font-medium">{t.labelStartDate}</span>
+                   <input
+                     type="date"
+                     value={state.startDate || ''}
+                     onChange={(e) => setState(prev => ({ ...prev, startDate: e.target.value || undefined }))}
+                     className="px-2 py-1 rounded-lg border border-slate-200 bg-white text-slate-700 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                   />
+                 </label>
+
+                 <BudgetSummary
+                   plan={activeStrategy.plan}
+                   resources={state.resources}
+                   budget={budget}
+                   locale={locale}
+                   onMakeCheaper={handleMakeCheaper}
+                   onResourceClick={handleResourceClick}
+                   labels={{
+                     planCost: t.budgetPlanCost,
+                     overBudget: t.budgetOver,
+                     mostExpensive: t.budgetMostExpensive,
+                     makeCheaper: t.btnMakeCheaper,
+                     reviewResource: t.btnReviewResource
+                   }}
+                 />
                  
                  {/* Tip is now shown here when panel is closed to guide user */}
                  {!isPanelOpen && (
                    <div className="mt-4 flex items-center gap-2 text-sm text-slate-500 bg-blue-50/50 p-3 rounded-lg border border-blue-100/50 max-w-fit">
                       <Layers className="w-4 h-4 text-blue-500" />
-                      <span>{t.resourceTip} <span className="font-semibold text-indigo-600">Blue Pills</span> {t.resourceTip3}</span>
+                      <span>{t.resourceTip} <span className="font-semibold text-indigo-600">{t.resourceTip2}</span> {t.resourceTip3}</span>
                    </div>
                  )}
               </div>
               <div className="p-8">
-                <div className="flex items-center gap-2 mb-8 text-slate-400 font-semibold uppercase text-xs tracking-wider">
-                  <Layers className="w-4 h-4" /> {t.headerRoadmap}
+                <div className="flex items-center justify-between gap-4 mb-8">
+                  <div className="flex items-center gap-2 text-slate-400 font-semibold uppercase text-xs tracking-wider">
+                    <Layers className="w-4 h-4" /> {t.headerRoadmap}
+                  </div>
+                  <div className="flex items-center p-1 bg-slate-100 rounded-xl text-xs font-semibold">
+                    <button
+                      onClick={() => setRoadmapView('steps')}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors ${roadmapView === 'steps' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      <ListTree className="w-3.5 h-3.5" /> {t.viewSteps}
+                    </button>
+                    <button
+                      onClick={() => setRoadmapView('timeline')}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors ${roadmapView === 'timeline' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      <GanttChart className="w-3.5 h-3.5" /> {t.viewTimeline}
+                    </button>
+                    <button
+                      onClick={() => setRoadmapView('progress')}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors ${roadmapView === 'progress' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      <Gauge className="w-3.5 h-3.5" /> {t.viewProgress}
+                    </button>
+                    <button
+                      onClick={() => setRoadmapView('resources')}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors ${roadmapView === 'resources' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      <Box className="w-3.5 h-3.5" /> {t.viewResources}
+                    </button>
+                  </div>
                 </div>
-                <StepList 
-                  items={activeStrategy.plan} 
-                  onExpandStep={(step) => handleExpandStep(step, activeStrategy.title)} 
-                  onResourceClick={handleResourceClick}
-                  onToggleComplete={handleToggleComplete}
-                  onEditStep={handleEditStep}
-                  onRegenerateStep={handleRegenerateStep}
-                  labels={{
-                    expand: t.expand,
-                    collapse: t.collapse,
-                    simultaneous: t.simultaneous,
-                    edit: t.edit,
-                    regenerate: t.regenerate,
-                    save: t.save,
-                    cancel: t.cancel,
-                    postEditTitle: t.postEditTitle,
-                    actionJustSave: t.actionJustSave,
-                    actionSubsteps: t.actionSubsteps,
-                    actionFuture: t.actionFuture
-                  }}
-                />
+                {roadmapView === 'progress' ? (
+                  <ProgressDashboard
+                    strategies={state.strategies}
+                    resources={state.resources}
+                    activeStrategyId={activeStrategy.id}
+                    startDate={state.startDate}
+                    locale={locale}
+                    onToggleComplete={handleToggleComplete}
+                    onResourceClick={handleResourceClick}
+                    labels={{
+                      viewResource: t.resourcePillTitle,
+                      overall: t.progressOverall,
+                      strategies: t.progressStrategies,
+                      burnDown: t.progressBurnDown,
+                      remaining: t.progressRemaining,
+                      planned: t.progressPlanned,
+                      nextActions: t.progressNextActions,
+                      noNextActions: t.progressNoNextActions,
+                      recent: t.progressRecent,
+                      noRecent: t.progressNoRecent
+                    }}
+                  />
+                ) : roadmapView === 'resources' ? (
+                  <ResourceTab
+                    resources={state.resources}
+                    usage={resourceUsage}
+                    currency={budget.currency}
+                    locale={locale}
+                    onResourceClick={handleResourceClick}
+                    onStepClick={handleRevealStep}
+                    labels={{
+                      empty: t.resourcesEmpty,
+                      noMatches: t.resourcesNoMatches,
+                      steps: t.stepCount,
+                      notAcquired: t.filterNotAcquired,
+                      upcoming: t.filterUpcoming,
+                      copyList: t.btnCopyList,
+                      copied: t.copied,
+                      unassessed: t.resourceUnassessed,
+                      statuses: {
+                        owned: t.statusOwned,
+                        to_buy: t.statusToBuy,
+                        to_learn: t.statusToLearn,
+                        acquired: t.statusAcquired
+                      }
+                    }}
+                  />
+                ) : roadmapView === 'timeline' ? (
+                  <TimelineView
+                    items={activeStrategy.plan}
+                    onResourceClick={handleResourceClick}
+                    labels={{
+                      viewResource: t.resourcePillTitle,
+                      totalDuration: t.totalDuration,
+                      totalEffort: t.totalEffort,
+                      criticalPath: t.criticalPath,
+                      unestimated: t.unestimatedSteps,
+                      noEstimates: t.noEstimates,
+                      daysShort: t.daysShort,
+                      hoursShort: t.hoursShort
+                    }}
+                  />
+                ) : (
+                  <StepList 
+                    items={activeStrategy.plan} 
+                    onExpandStep={(step) => handleExpandStep(step, activeStrategy.title)} 
+                    onResourceClick={handleResourceClick}
+                    onToggleComplete={handleToggleComplete}
+                    onEditStep={handleEditStep}
+                    onRegenerateStep={handleRegenerateStep}
+                    onEstimateStep={handleEstimateStep}
+                    onScheduleStep={handleScheduleStep}
+                    onRestructure={handleRestructurePlan}
+                    stepDates={stepDates}
+                    revealStepId={revealStepId}
+                    resourceStatuses={resourceStatuses}
+                    currency={budget.currency}
+                    locale={locale}
+                    labels={{
+                      viewResource: t.resourcePillTitle,
+                      expand: t.expand,
+                      collapse: t.collapse,
+                      simultaneous: t.simultaneous,
+                      edit: t.edit,
+                      regenerate: t.regenerate,
+                      save: t.save,
+                      cancel: t.cancel,
+                      postEditTitle: t.postEditTitle,
+                      actionJustSave: t.actionJustSave,
+                      actionSubsteps: t.actionSubsteps,
+                      actionFuture: t.actionFuture,
+                      after: t.after,
+                      ready: t.ready,
+                      durationDays: t.durationDays,
+                      effortHours: t.effortHours,
+                      costEstimate: t.labelStepCost,
+                      daysShort: t.daysShort,
+                      hoursShort: t.hoursShort,
+                      scheduledDate: t.labelScheduledDate,
+                      estimatesFromSubSteps: t.estimatesFromSubSteps,
+                      back: t.btnBack,
+                      newStep: t.newStep,
+                      addStep: t.btnAddStep,
+                      moreActions: t.btnMoreActions,
+                      dragStep: t.btnDragStep,
+                      addBelow: t.actionAddBelow,
+                      moveUp: t.actionMoveUp,
+                      moveDown: t.actionMoveDown,
+                      indent: t.actionIndent,
+                      outdent: t.actionOutdent,
+                      runParallel: t.actionRunParallel,
+                      runAlone: t.actionRunAlone,
+                      deleteStep: t.actionDeleteStep,
+                      confirmDeleteStep: t.confirmDeleteStep,
+                      dropParallel: t.dropParallel,
+                      shortcutsHint: t.shortcutsHint,
+                      completedAt: t.labelCompletedAt,
+                      waitingOnResources: t.waitingOnResources
+                    }}
+                  />
+                )}
+                {state.futureProposal?.strategyId === activeStrategy.id && (
+                  <FutureDiffView
+                    proposal={state.futureProposal}
+                    defaultVersionName={interpolate(t.versionAfterEdit, { step: state.futureProposal.anchorText.slice(0, 40) })}
+                    onToggle={handleToggleProposalItem}
+                    onApply={handleApplyProposal}
+                    onDiscard={handleDiscardProposal}
+                    onResourceClick={handleResourceClick}
+                    labels={{
+                      viewResource: t.resourcePillTitle,
+                      title: t.proposalTitle,
+                      subtitle: t.proposalSubtitle,
+                      changes: {
+                        unchanged: t.diffUnchanged,
+                        reworded: t.diffReworded,
+                        added: t.diffAdded,
+                        removed: t.diffRemoved
+                      },
+                      accept: t.proposalAccept,
+                      reject: t.proposalReject,
+                      versionName: t.labelVersionName,
+                      apply: t.btnApplyProposal,
+                      discard: t.btnDiscardProposal
+                    }}
+                  />
+                )}
+                {activeStrategy.planLoading && (
+                  <div className="flex items-center justify-center gap-2 py-6 text-sm text-slate-500">
+                    <Loader2 className="w-4 h-4 animate-spin text-indigo-500" /> {t.loadingPlan}
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
-          {/* Right Column: Resource Panel (Conditionally Rendered) */}
+          {/* Right Column: History and Resource Panels (Conditionally Rendered) */}
           {isPanelOpen && (
             <div className="lg:col-span-4">
-               <div className="sticky top-24">
-                 <div className="flex items-center gap-2 text-slate-400 font-medium text-sm uppercase tracking-wider mb-4 px-1">
-                    {t.headerResources}
-                 </div>
-                 <ResourcePanel 
-                   resource={selectedResource} 
-                   onResourceClick={handleResourceClick}
-                   onClose={() => setState(prev => ({ ...prev, selectedResourceId: null }))}
-                   labels={{
-                     acquisitionPlan: t.acquisitionPlan,
-                     generating: t.generating
-                   }}
-                 />
+               <div className="sticky top-24 space-y-6">
+                 {showHistory && (
+                   <HistoryPanel
+                     history={state.history || { past: [], future: [] }}
+                     locale={locale}
+                     onJump={(offset) => setState(prev => jumpInHistory(prev, offset))}
+                     onClose={() => setShowHistory(false)}
+                     labels={{
+                       title: t.historyTitle,
+                       undo: t.btnUndo,
+                       redo: t.btnRedo,
+                       current: t.historyCurrent,
+                       empty: t.historyEmpty,
+                       changes: {
+                         edit: t.changeEdit,
+                         complete: t.changeComplete,
+                         regenerate: t.changeRegenerate,
+                         future: t.changeFuture,
+                         expand: t.changeExpand,
+                         estimate: t.changeEstimate,
+                         schedule: t.changeSchedule,
+                         resource: t.changeResource,
+                         plan: t.changePlan,
+                         restore: t.changeRestore,
+                         add: t.changeAdd,
+                         delete: t.changeDelete,
+                         move: t.changeMove,
+                         inventory: t.changeInventory,
+                         cheaper: t.changeCheaper,
+                         merge: t.changeMerge,
+                         split: t.changeSplit,
+                         translate: t.changeTranslate
+                       }
+                     }}
+                   />
+                 )}
+                 {showHistory && (
+                   <PlanVersions
+                     versions={activeStrategy.versions || []}
+                     locale={locale}
+                     onRestore={handleRestoreVersion}
+                     onDelete={handleDeleteVersion}
+                     onResourceClick={handleResourceClick}
+                     labels={{
+                       viewResource: t.resourcePillTitle,
+                       title: t.versionsTitle,
+                       empty: t.versionsEmpty,
+                       restore: t.btnRestoreVersion,
+                       delete: t.btnDelete,
+                       steps: t.stepCount
+                     }}
+                   />
+                 )}
+                 {selectedResource && (
+                   <div>
+                     <div className="flex items-center gap-2 text-slate-400 font-medium text-sm uppercase tracking-wider mb-4 px-1">
+                        {t.headerResources}
+                     </div>
+                     <ResourcePanel 
+                       resource={selectedResource} 
+                       otherResources={state.resources.filter(r => r.id !== selectedResource?.id)}
+                       suggestions={selectedResource ? getMergeSuggestions(state.resources, selectedResource) : []}
+                       usage={selectedResource ? resourceUsage.get(selectedResource.id) || [] : []}
+                       trail={(state.resourceTrail || []).map(id => state.resources.find(r => r.id === id)).filter((r): r is Resource => !!r)}
+                       cycle={acquisitionCycle}
+                       onResourceClick={handleOpenSubResource}
+                       onBack={handleResourceBack}
+                       onToggleStep={(step) => handleToggleAcquisitionStep(selectedResource.id, step)}
+                       onExpandStep={(step) => handleExpandAcquisitionStep(selectedResource.id, step)}
+                       onUpdate={handleUpdateResource}
+                       onMerge={handleMergeResources}
+                       onSplit={handleSplitResource}
+                       onClose={() => setState(prev => ({ ...prev, selectedResourceId: null, resourceTrail: undefined }))}
+                       labels={{
+                         viewResource: t.resourcePillTitle,
+                         acquisitionPlan: t.acquisitionPlan,
+                         generating: t.generating,
+                         noSteps: t.acquisitionEmpty,
+                         status: t.labelResourceStatus,
+                         statuses: {
+                           owned: t.statusOwned,
+                           to_buy: t.statusToBuy,
+                           to_learn: t.statusToLearn,
+                           acquired: t.statusAcquired
+                         },
+                         quantity: t.labelQuantity,
+                         cost: t.labelCostEstimate,
+                         notes: t.labelNotes,
+                         aliases: t.labelAliases,
+                         split: t.btnSplitAlias,
+                         mergeWith: t.labelMergeWith,
+                         mergeSuggestions: t.labelMergeSuggestions,
+                         usedIn: t.labelUsedIn,
+                         notUsed: t.resourceNotUsed,
+                         back: t.btnBack,
+                         cycle: t.resourceCycle,
+                         expand: t.expand,
+                         collapse: t.collapse
+                       }}
+                     />
+                   </div>
+                 )}
                </div>
             </div>
           )}
@@ -815,10 +1931,72 @@ const App: React.FC = () => {
       {renderHeader()}
       <main className="max-w-7xl mx-auto px-4 py-8 relative">
         {state.stage === 'INPUT' && renderInputScreen()}
-        {state.stage === 'PROCESSING' && renderProcessingScreen()}
-        {state.stage === 'SELECTION' && renderSelectionScreen()}
+        {state.stage === 'SELECTION' && (isComparing ? renderComparisonScreen() : renderSelectionScreen())}
         {state.stage === 'PROCESS' && renderProcessScreen()}
+        {state.stage === 'LIBRARY' && (
+          <GoalLibrary
+            goals={savedGoals}
+            locale={locale}
+            onOpen={handleOpenGoal}
+            onRename={handleRenameGoal}
+            onDuplicate={handleDuplicateGoal}
+            onDelete={handleDeleteGoal}
+            onNewGoal={handleReset}
+            labels={{
+              title: t.libraryTitle,
+              subtitle: t.librarySubtitle,
+              empty: t.libraryEmpty,
+              open: t.btnOpen,
+              rename: t.btnRename,
+              duplicate: t.btnDuplicate,
+              delete: t.btnDelete,
+              confirmDelete: t.confirmDelete,
+              lastUpdated: t.lastUpdated,
+              strategies: t.labelStrategies,
+              newGoal: t.newGoal,
+              save: t.save,
+              cancel: t.cancel
+            }}
+          />
+        )}
       </main>
+      {showTelemetry && (
+        <TelemetryPanel
+          goalId={state.goalId}
+          locale={locale}
+          onClose={() => setShowTelemetry(false)}
+          labels={{
+            title: t.telemetryTitle,
+            session: t.telemetrySession,
+            goal: t.telemetryGoal,
+            noGoal: t.telemetryNoGoal,
+            calls: t.telemetryCalls,
+            failures: t.telemetryFailures,
+            promptTokens: t.telemetryPromptTokens,
+            responseTokens: t.telemetryResponseTokens,
+            latency: t.telemetryLatency,
+            cacheHits: t.telemetryCacheHits,
+            cached: t.telemetryCached,
+            cost: t.telemetryCost,
+            unpriced: t.telemetryUnpriced,
+            estimated: t.telemetryEstimated,
+            byFunction: t.telemetryByFunction,
+            recent: t.telemetryRecent,
+            empty: t.telemetryEmpty,
+            prices: t.telemetryPrices,
+            pricesHint: t.telemetryPricesHint,
+            model: t.telemetryModel,
+            inputPrice: t.telemetryInputPrice,
+            outputPrice: t.telemetryOutputPrice,
+            resetPrices: t.telemetryResetPrices,
+            clear: t.telemetryClear,
+            cache: t.telemetryCache,
+            cacheHint: t.telemetryCacheHint,
+            clearCache: t.telemetryClearCache,
+            cacheCleared: t.telemetryCacheCleared
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Budget, PlanItem, Resource, Step, Strategy } from '../types';
+import { formatMoney, getMostExpensiveItems, getPlanCost, getStrategyCost, isOverBudget } from '../services/planBudget';
+import { interpolate } from '../translations';
+import { AlertCircle, Box, Loader2, TrendingDown, Wallet } from './Icons';
+
+interface BudgetSummaryProps {
+  plan: PlanItem[];
+  resources: Resource[];
+  budget: Budget;
+  locale: string;
+  onMakeCheaper: (step: Step) => void;
+  onResourceClick: (name: string) => void;
+  labels: {
+    planCost: string;
+    overBudget: string; // "{amount}" is replaced with the overspend
+    mostExpensive: string;
+    makeCheaper: string;
+    reviewResource: string;
+  }
+}
+
+/**
+ * What the active plan and the resources it still needs cost against the user's budget.
+ * Over the cap, it lists the priciest open steps, which can be rewritten one by one into
+ * cheaper alternatives, and the priciest resources, which open in the resource panel.
+ */
+export const BudgetSummary: React.FC<BudgetSummaryProps> = ({ plan, resources, budget, locale, onMakeCheaper, onResourceClick, labels }) => {
+  const cost = getPlanCost(plan, resources);
+  if (cost === undefined) return null;
+
+  const money = (amount: number) => formatMoney(amount, budget.currency, locale);
+  const over = isOverBudget(cost, budget);
+  const expensive = over ? getMostExpensiveItems(plan, resources) : [];
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-500">
+        <Wallet className="w-4 h-4 text-indigo-500" />
+        <span className="font-medium">{labels.planCost}</span>
+        <span className={`font-semibold ${over ? 'text-red-600' : 'text-slate-800'}`}>{money(cost)}</span>
+        {budget.cap !== undefined && <span>/ {money(budget.cap)}</span>}
+        {budget.cap !== undefined && budget.cap > 0 && (
+          <div className="w-32 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+            <div
+              className={`h-full rounded-full ${over ? 'bg-red-500' : 'bg-emerald-500'}`}
+              style={{ width: `${Math.min(100, (cost / budget.cap) * 100)}%` }}
+            ></div>
+          </div>
+        )}
+      </div>
+
+      {over && (
+        <div className="p-4 rounded-xl bg-red-50 border border-red-100 space-y-3 max-w-2xl">
+          <div className="flex items-start gap-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{interpolate(labels.overBudget, { amount: money(cost - budget.cap!) })}</span>
+          </div>
+          {expensive.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[11px] font-semibold uppercase tracking-wider text-red-400">{labels.mostExpensive}</div>
+              {expensive.map(item => item.type === 'step' ? (
+                <div key={item.step.id} className="flex items-center gap-3 p-2 rounded-lg bg-white border border-red-100 text-sm">
+                  <span className="min-w-0 flex-grow truncate text-slate-700">{item.step.instruction.replace(/[\[\]]/g, '')}</span>
+                  <span className="flex-shrink-0 font-mono text-xs text-slate-500">{money(item.cost)}</span>
+                  <button
+                    onClick={() => onMakeCheaper(item.step)}
+                    disabled={item.step.loading}
+                    className="flex-shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 transition-colors disabled:opacity-50"
+                  >
+                    {item.step.loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <TrendingDown className="w-3.5 h-3.5" />}
+                    {labels.makeCheaper}
+                  </button>
+                </div>
+              ) : (
+                <div key={item.resource.id} className="flex items-center gap-3 p-2 rounded-lg bg-white border border-red-100 text-sm">
+                  <Box className="w-4 h-4 flex-shrink-0 text-slate-400" />
+                  <span className="min-w-0 flex-grow truncate text-slate-700">
+                    {item.resource.name}{item.resource.quantity !== undefined && ` × ${item.resource.quantity}`}
+                  </span>
+                  <span className="flex-shrink-0 font-mono text-xs text-slate-500">{money(item.cost)}</span>
+                  <button
+                    onClick={() => onResourceClick(item.resource.name)}
+                    className="flex-shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 transition-colors"
+                  >
+                    {labels.reviewResource}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface StrategyCostBadgeProps {
+  strategy: Strategy;
+  resources: Resource[];
+  budget: Budget;
+  locale: string;
+  labels: {
+    overBudget: string;
+    rough: string;
+  }
+}
+
+/** Cost pill for a strategy card: the plan's total once it exists, the model's guess before. */
+export const StrategyCostBadge: React.FC<StrategyCostBadgeProps> = ({ strategy, resources, budget, locale, labels }) => {
+  const cost = getStrategyCost(strategy, resources);
+  if (!cost) return null;
+  const over = isOverBudget(cost.amount, budget);
+
+  return (
+    <div
+      className={`mt-4 inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-semibold ${over ? 'bg-red-50 text-red-700 border-red-100' : 'bg-slate-50 text-slate-600 border-slate-100'}`}
+      title={over ? labels.overBudget : cost.isRough ? labels.rough : undefined}
+    >
+      <Wallet className="w-3.5 h-3.5" />
+      {cost.isRough && '~'}{formatMoney(cost.amount, budget.currency, locale)}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FutureProposal, PlanItemChange } from '../types';
+import { getPlanItemText } from '../services/planDiff';
+import { StepRenderer } from './StepRenderer';
+import { Check, GitCompare, X } from './Icons';
+
+interface FutureDiffViewProps {
+  proposal: FutureProposal;
+  defaultVersionName: string;
+  onToggle: (index: number) => void;
+  onApply: (versionName: string) => void;
+  onDiscard: () => void;
+  onResourceClick: (name: string) => void;
+  labels: {
+    viewResource: string;
+    title: string;
+    subtitle: string;
+    changes: Record<PlanItemChange, string>;
+    accept: string;
+    reject: string;
+    versionName: string;
+    apply: string;
+    discard: string;
+  }
+}
+
+const CHANGE_STYLES: Record<PlanItemChange, { row: string; badge: string }> = {
+  unchanged: { row: 'border-slate-100 bg-white', badge: 'bg-slate-100 text-slate-500' },
+  reworded: { row: 'border-amber-200 bg-amber-50/40', badge: 'bg-amber-100 text-amber-700' },
+  added: { row: 'border-emerald-200 bg-emerald-50/40', badge: 'bg-emerald-100 text-emerald-700' },
+  removed: { row: 'border-rose-200 bg-rose-50/40', badge: 'bg-rose-100 text-rose-700' },
+};
+
+/**
+ * Shows regenerated future steps as a diff against the current tail of the plan.
+ * Each changed item can be accepted or rejected before anything is applied.
+ */
+export const FutureDiffView: React.FC<FutureDiffViewProps> = ({
+  proposal,
+  defaultVersionName,
+  onToggle,
+  onApply,
+  onDiscard,
+  onResourceClick,
+  labels
+}) => {
+  const [versionName, setVersionName] = useState(defaultVersionName);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Bring a fresh proposal into view; toggling decisions keeps the same diff
+  useEffect(() => {
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [proposal.diff]);
+
+  return (
+    <div ref={containerRef} className="mt-8 rounded-2xl border border-indigo-200 bg-indigo-50/30 p-6 space-y-4 animate-in fade-in duration-300">
+      <div>
+        <div className="flex items-center gap-2 font-bold text-slate-900">
+          <GitCompare className="w-4 h-4 text-indigo-500" /> {labels.title}
+        </div>
+        <p className="text-sm text-slate-500 mt-1">
+          {labels.subtitle} <span className="font-medium text-slate-700">"{proposal.anchorText}"</span>
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {proposal.diff.map((entry, idx) => {
+          const style = CHANGE_STYLES[entry.change];
+          const accepted = proposal.accepted[idx];
+          const decidable = entry.change !== 'unchanged';
+
+          return (
+            <div key={idx} className={`flex items-start gap-3 p-3 rounded-xl border ${style.row}`}>
+              <span className={`mt-0.5 px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wide flex-shrink-0 ${style.badge}`}>
+                {labels.changes[entry.change]}
+              </span>
+
+              <div className="flex-grow min-w-0 text-sm space-y-1">
+                {/* Whatever the current decision drops is struck through */}
+                {entry.current && entry.change !== 'unchanged' && (
+                  <div className={accepted ? 'text-rose-700 line-through decoration-rose-300' : 'text-slate-700'}>
+                    {getPlanItemText(entry.current)}
+                  </div>
+                )}
+                {entry.proposed && (
+                  <div className={entry.change === 'unchanged' ? 'text-slate-600' : accepted ? 'text-emerald-800' : 'text-slate-400 line-through'}>
+                    <StepRenderer text={getPlanItemText(entry.proposed)} onResourceClick={onResourceClick} resourceTitle={labels.viewResource} />
+                  </div>
+                )}
+              </div>
+
+              {decidable && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => !accepted && onToggle(idx)}
+                    className={`p-1.5 rounded-lg transition-colors ${accepted ? 'bg-emerald-500 text-white' : 'text-slate-400 hover:bg-emerald-50 hover:text-emerald-600'}`}
+                    title={labels.accept}
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => accepted && onToggle(idx)}
+                    className={`p-1.5 rounded-lg transition-colors ${!accepted ? 'bg-rose-500 text-white' : 'text-slate-400 hover:bg-rose-50 hover:text-rose-600'}`}
+                    title={labels.reject}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2 pt-2">
+        <label className="flex items-center gap-2 text-sm text-slate-500 mr-auto">
+          {labels.versionName}
+          <input
+            type="text"
+            value={versionName}
+            onChange={(e) => setVersionName(e.target.value)}
+            className="px-2 py-1 rounded-lg border border-slate-200 bg-white text-slate-700 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+          />
+        </label>
+        <button
+          onClick={onDiscard}
+          className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
+        >
+          {labels.discard}
+        </button>
+        <button
+          onClick={() => onApply(versionName)}
+          className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl transition-colors shadow-sm"
+        >
+          {labels.apply}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { SavedGoalSummary } from '../types';
+import { Library, FolderOpen, Edit3, CopyPlus, Trash2, Save, X, Plus } from './Icons';
+
+interface GoalLibraryProps {
+  goals: SavedGoalSummary[];
+  locale: string;
+  onOpen: (goalId: string) => void;
+  onRename: (goalId: string, name: string) => void;
+  onDuplicate: (goalId: string) => void;
+  onDelete: (goalId: string) => void;
+  onNewGoal: () => void;
+  labels: {
+    title: string;
+    subtitle: string;
+    empty: string;
+    open: string;
+    rename: string;
+    duplicate: string;
+    delete: string;
+    confirmDelete: string;
+    lastUpdated: string;
+    strategies: string;
+    newGoal: string;
+    save: string;
+    cancel: string;
+  }
+}
+
+interface GoalCardProps {
+  goal: SavedGoalSummary;
+  locale: string;
+  onOpen: (goalId: string) => void;
+  onRename: (goalId: string, name: string) => void;
+  onDuplicate: (goalId: string) => void;
+  onDelete: (goalId: string) => void;
+  labels: GoalLibraryProps['labels'];
+}
+
+const GoalCard: React.FC<GoalCardProps> = ({ goal, locale, onOpen, onRename, onDuplicate, onDelete, labels }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nameText, setNameText] = useState(goal.name);
+
+  const handleSaveName = () => {
+    onRename(goal.id, nameText);
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(labels.confirmDelete)) onDelete(goal.id);
+  };
+
+  return (
+    <div className="group bg-white rounded-2xl border border-slate-200 hover:border-indigo-200 shadow-sm hover:shadow-lg hover:shadow-indigo-100/50 transition-all flex flex-col">
+      <div className="p-6 flex-grow space-y-2">
+        {isRenaming ? (
+          <div className="flex items-center gap-2">
+            <input
+              value={nameText}
+              onChange={(e) => setNameText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveName();
+                if (e.key === 'Escape') setIsRenaming(false);
+              }}
+              className="flex-grow min-w-0 p-2 text-sm text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-slate-50"
+              autoFocus
+            />
+            <button onClick={() => setIsRenaming(false)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg transition-colors" title={labels.cancel}>
+              <X className="w-4 h-4" />
+            </button>
+            <button onClick={handleSaveName} className="p-1.5 text-green-600 bg-green-50 hover:bg-green-100 rounded-lg transition-colors" title={labels.save}>
+              <Save className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <h3 className="text-lg font-bold text-slate-900 leading-tight group-hover:text-indigo-700 transition-colors break-words">{goal.name}</h3>
+        )}
+        {goal.description !== goal.name && (
+          <p className="text-sm text-slate-500 leading-relaxed line-clamp-2">{goal.description}</p>
+        )}
+        <p className="text-xs text-slate-400">
+          {goal.strategyCount} {labels.strategies} · {labels.lastUpdated} {new Date(goal.updatedAt).toLocaleString(locale)}
+        </p>
+      </div>
+
+      <div className="px-6 py-4 bg-slate-50/50 border-t border-slate-100 flex items-center justify-between gap-2">
+        <button
+          onClick={() => onOpen(goal.id)}
+          className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:bg-indigo-600 hover:text-white hover:border-transparent transition-all shadow-sm"
+        >
+          <FolderOpen className="w-4 h-4" /> {labels.open}
+        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => { setNameText(goal.name); setIsRenaming(true); }}
+            className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+            title={labels.rename}
+          >
+            <Edit3 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onDuplicate(goal.id)}
+            className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+            title={labels.duplicate}
+          >
+            <CopyPlus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            title={labels.delete}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const GoalLibrary: React.FC<GoalLibraryProps> = ({ goals, locale, onOpen, onRename, onDuplicate, onDelete, onNewGoal, labels }) => {
+  return (
+    <div className="max-w-6xl mx-auto pt-8 space-y-10 animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div className="space-y-2">
+          <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <Library className="w-7 h-7 text-indigo-500" /> {labels.title}
+          </h2>
+          <p className="text-slate-600 text-lg">{labels.subtitle}</p>
+        </div>
+        <button
+          onClick={onNewGoal}
+          className="flex items-center gap-2 px-4 py-2 bg-slate-800 border border-slate-800 text-white rounded-xl text-sm font-semibold hover:bg-slate-700 transition-all shadow-sm hover:shadow"
+        >
+          <Plus className="w-4 h-4" /> {labels.newGoal}
+        </button>
+      </div>
+
+      {goals.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-slate-400 bg-white rounded-2xl border border-dashed border-slate-200">
+          <Library className="w-12 h-12 mb-4 opacity-50" />
+          <p className="text-lg">{labels.empty}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {goals.map(goal => (
+            <GoalCard
+              key={goal.id}
+              goal={goal}
+              locale={locale}
+              onOpen={onOpen}
+              onRename={onRename}
+              onDuplicate={onDuplicate}
+              onDelete={onDelete}
+              labels={labels}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
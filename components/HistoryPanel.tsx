@@ -0,0 +1,115 @@
+import React from 'react';
+import { HistoryEntry, PlanChangeKind, PlanHistory } from '../types';
+import { History, Redo2, Undo2, X } from './Icons';
+
+interface HistoryPanelProps {
+  history: PlanHistory;
+  locale: string;
+  onJump: (offset: number) => void; // Negative undoes, positive redoes
+  onClose: () => void;
+  labels: {
+    title: string;
+    undo: string;
+    redo: string;
+    current: string;
+    empty: string;
+    changes: Record<PlanChangeKind, string>;
+  }
+}
+
+const EntryRow: React.FC<{
+  entry: HistoryEntry;
+  locale: string;
+  undone: boolean;
+  label: string;
+  onClick: () => void;
+}> = ({ entry, locale, undone, label, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-full text-left px-3 py-2 rounded-lg transition-colors hover:bg-indigo-50 ${undone ? 'opacity-50' : ''}`}
+  >
+    <div className="flex items-center justify-between gap-2">
+      <span className={`text-sm font-medium text-slate-700 ${undone ? 'line-through' : ''}`}>{label}</span>
+      <span className="text-[10px] text-slate-400 font-mono flex-shrink-0">
+        {new Date(entry.timestamp).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+      </span>
+    </div>
+    {entry.detail && <div className="text-xs text-slate-400 truncate">{entry.detail}</div>}
+  </button>
+);
+
+/**
+ * Lists every recorded change. Clicking a change jumps to the version just before it;
+ * clicking an undone change brings the plan forward to just after it.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, locale, onJump, onClose, labels }) => {
+  const { past, future } = history;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-xl shadow-slate-200/50 overflow-hidden h-fit animate-in slide-in-from-right-8 fade-in duration-300">
+      <div className="bg-slate-50 p-4 border-b border-slate-100 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 font-bold text-slate-900">
+          <History className="w-4 h-4 text-indigo-500" /> {labels.title}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onJump(-1)}
+            disabled={past.length === 0}
+            className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-30"
+            title={labels.undo}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onJump(1)}
+            disabled={future.length === 0}
+            className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-30"
+            title={labels.redo}
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 max-h-[50vh] overflow-y-auto custom-scrollbar space-y-1">
+        {past.length === 0 && future.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">{labels.empty}</p>
+        ) : (
+          <>
+            {past.map((entry, idx) => (
+              <EntryRow
+                key={entry.id}
+                entry={entry}
+                locale={locale}
+                undone={false}
+                label={labels.changes[entry.kind]}
+                onClick={() => onJump(idx - past.length)}
+              />
+            ))}
+            <div className="flex items-center gap-2 px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-indigo-600">
+              <div className="h-px flex-grow bg-indigo-200"></div>
+              {labels.current}
+              <div className="h-px flex-grow bg-indigo-200"></div>
+            </div>
+            {future.map((entry, idx) => (
+              <EntryRow
+                key={entry.id}
+                entry={entry}
+                locale={locale}
+                undone={true}
+                label={labels.changes[entry.kind]}
+                onClick={() => onJump(idx + 1)}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
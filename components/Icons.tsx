@@ -19,7 +19,40 @@ import {
   Edit3,
   RefreshCw,
   Save,
-  Circle
+  Circle,
+  Library,
+  FolderOpen,
+  CopyPlus,
+  Trash2,
+  Upload,
+  FileJson,
+  Clock,
+  GanttChart,
+  ListTree,
+  CalendarDays,
+  Columns3,
+  Sparkles,
+  Shuffle,
+  Undo2,
+  Redo2,
+  History,
+  GitCompare,
+  Bookmark,
+  GripVertical,
+  MoreHorizontal,
+  ArrowUp,
+  ArrowDown,
+  IndentIncrease,
+  IndentDecrease,
+  Gauge,
+  AlertCircle,
+  Wallet,
+  TrendingDown,
+  Merge,
+  Filter,
+  ClipboardList,
+  Activity,
+  RotateCcw
 } from 'lucide-react';
 
 export { 
@@ -43,5 +76,38 @@ export {
   Edit3,
   RefreshCw,
   Save,
-  Circle
+  Circle,
+  Library,
+  FolderOpen,
+  CopyPlus,
+  Trash2,
+  Upload,
+  FileJson,
+  Clock,
+  GanttChart,
+  ListTree,
+  CalendarDays,
+  Columns3,
+  Sparkles,
+  Shuffle,
+  Undo2,
+  Redo2,
+  History,
+  GitCompare,
+  Bookmark,
+  GripVertical,
+  MoreHorizontal,
+  ArrowUp,
+  ArrowDown,
+  IndentIncrease,
+  IndentDecrease,
+  Gauge,
+  AlertCircle,
+  Wallet,
+  TrendingDown,
+  Merge,
+  Filter,
+  ClipboardList,
+  Activity,
+  RotateCcw
 };
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { PlanVersion } from '../types';
+import { getPlanItemText } from '../services/planDiff';
+import { PluralMessage, pluralize } from '../translations';
+import { StepRenderer } from './StepRenderer';
+import { Bookmark, ChevronDown, ChevronRight, RefreshCw, Trash2 } from './Icons';
+
+interface PlanVersionsProps {
+  versions: PlanVersion[];
+  locale: string;
+  onRestore: (version: PlanVersion) => void;
+  onDelete: (versionId: string) => void;
+  onResourceClick: (name: string) => void;
+  labels: {
+    viewResource: string;
+    title: string;
+    empty: string;
+    restore: string;
+    delete: string;
+    steps: PluralMessage;
+  }
+}
+
+/**
+ * Saved versions of the active strategy's plan, newest first. Each can be previewed and restored.
+ */
+export const PlanVersions: React.FC<PlanVersionsProps> = ({ versions, locale, onRestore, onDelete, onResourceClick, labels }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-xl shadow-slate-200/50 overflow-hidden h-fit animate-in slide-in-from-right-8 fade-in duration-300">
+      <div className="bg-slate-50 p-4 border-b border-slate-100 flex items-center gap-2 font-bold text-slate-900">
+        <Bookmark className="w-4 h-4 text-indigo-500" /> {labels.title}
+      </div>
+
+      <div className="p-3 max-h-[50vh] overflow-y-auto custom-scrollbar space-y-1">
+        {versions.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">{labels.empty}</p>
+        ) : (
+          [...versions].reverse().map(version => {
+            const isOpen = openId === version.id;
+            return (
+              <div key={version.id} className="rounded-lg">
+                <button
+                  onClick={() => setOpenId(isOpen ? null : version.id)}
+                  className="w-full flex items-start gap-2 text-left px-3 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                >
+                  {isOpen ? <ChevronDown className="w-4 h-4 mt-0.5 text-slate-400" /> : <ChevronRight className="w-4 h-4 mt-0.5 text-slate-400" />}
+                  <div className="min-w-0 flex-grow">
+                    <div className="text-sm font-medium text-slate-700 truncate">{version.name}</div>
+                    <div className="text-xs text-slate-400">
+                      {new Date(version.createdAt).toLocaleString(locale)} · {pluralize(labels.steps, version.plan.length, locale)}
+                    </div>
+                  </div>
+                </button>
+
+                {isOpen && (
+                  <div className="px-3 pb-3 space-y-3">
+                    <ol className="space-y-1.5 pl-6 list-decimal text-sm text-slate-600">
+                      {version.plan.map((item, idx) => (
+                        <li key={idx}>
+                          <StepRenderer text={getPlanItemText(item)} onResourceClick={onResourceClick} resourceTitle={labels.viewResource} />
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => onDelete(version.id)}
+                        className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" /> {labels.delete}
+                      </button>
+                      <button
+                        onClick={() => onRestore(version)}
+                        className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg transition-colors"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" /> {labels.restore}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
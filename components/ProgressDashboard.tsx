@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import { Resource, Step, Strategy } from '../types';
+import { getBurnDown, getCompletionLog, getNextActions, getPlanProgress } from '../services/planProgress';
+import { buildPlanSchedule, formatAmount } from '../services/planSchedule';
+import { formatShortDate } from '../services/planCalendar';
+import { getMissingResourceNames, getResourceStatuses } from '../services/resourceInventory';
+import { StepRenderer } from './StepRenderer';
+import { CheckCircle2, ChevronRight, Circle } from './Icons';
+
+interface ProgressDashboardProps {
+  strategies: Strategy[];
+  resources: Resource[];
+  activeStrategyId: string;
+  startDate?: string;
+  locale: string;
+  onToggleComplete: (step: Step) => void;
+  onResourceClick: (name: string) => void;
+  labels: {
+    viewResource: string;
+    overall: string;
+    strategies: string;
+    burnDown: string;
+    remaining: string;
+    planned: string;
+    nextActions: string;
+    noNextActions: string;
+    recent: string;
+    noRecent: string;
+  }
+}
+
+const RECENT_LIMIT = 8;
+
+const percentLabel = (value: number) => `${Math.round(value * 100)}%`;
+
+const BurnDownChart: React.FC<{ points: ReturnType<typeof getBurnDown>['points']; total: number; labels: ProgressDashboardProps['labels'] }> = ({ points, total, labels }) => {
+  const width = 100;
+  const height = 40;
+  const x = (i: number) => points.length > 1 ? (i / (points.length - 1)) * width : width / 2;
+  const y = (value: number) => total > 0 ? height - (value / total) * height : height;
+  const line = (values: number[]) => values.map((v, i) => `${x(i)},${y(v)}`).join(' ');
+  const hasIdeal = points.some(p => p.ideal !== undefined);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-40 rounded-xl bg-slate-50 border border-slate-100 p-3">
+        <svg viewBox={`0 -1 ${width} ${height + 2}`} preserveAspectRatio="none" className="w-full h-full overflow-visible">
+          {hasIdeal && (
+            <polyline points={line(points.map(p => p.ideal ?? 0))} fill="none" stroke="#cbd5e1" strokeWidth={1.5} strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+          )}
+          <polyline points={line(points.map(p => p.remaining))} fill="none" stroke="#6366f1" strokeWidth={2.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+        <span className="absolute top-2 left-3 text-[10px] font-mono text-slate-400">{total}</span>
+      </div>
+      <div className="flex items-center justify-between text-[11px] text-slate-400">
+        <span>{formatShortDate(points[0].date)}</span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-indigo-500"></span> {labels.remaining}</span>
+          {hasIdeal && <span className="flex items-center gap-1"><span className="w-3 h-0.5 border-t border-dashed border-slate-400"></span> {labels.planned}</span>}
+        </span>
+        <span>{formatShortDate(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Daily overview of a goal: how far each strategy has come, how the active plan is
+ * burning down, what can be picked up right now and what was finished recently.
+ */
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  strategies,
+  resources,
+  activeStrategyId,
+  startDate,
+  locale,
+  onToggleComplete,
+  onResourceClick,
+  labels
+}) => {
+  const active = strategies.find(s => s.id === activeStrategyId);
+  const plan = active?.plan || [];
+
+  const burnDown = useMemo(() => getBurnDown(plan, buildPlanSchedule(plan).totalDays, startDate), [plan, startDate]);
+  const nextActions = useMemo(() => getNextActions(plan, getMissingResourceNames(resources)), [plan, resources]);
+  const resourceStatuses = useMemo(() => getResourceStatuses(resources), [resources]);
+  const recent = useMemo(() => getCompletionLog(plan, RECENT_LIMIT), [plan]);
+  const progress = getPlanProgress(plan);
+  const planned = strategies.filter(s => s.plan && s.plan.length > 0);
+
+  return (
+    <div className="space-y-8">
+      {/* Overall + per strategy */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="flex flex-col items-center justify-center p-6 rounded-2xl bg-indigo-50/50 border border-indigo-100">
+          <div className="text-4xl font-bold text-indigo-600">{percentLabel(progress)}</div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-slate-400 mt-1">{labels.overall}</div>
+        </div>
+        <div className="md:col-span-2 space-y-3">
+          <div className="text-xs font-semibold uppercase tracking-wider text-slate-400">{labels.strategies}</div>
+          {planned.map(strategy => {
+            const value = getPlanProgress(strategy.plan!);
+            return (
+              <div key={strategy.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <span className={`truncate ${strategy.id === activeStrategyId ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>{strategy.title}</span>
+                  <span className="font-mono text-xs text-slate-500">{percentLabel(value)}</span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                  <div className={`h-full rounded-full transition-all duration-500 ${strategy.id === activeStrategyId ? 'bg-indigo-500' : 'bg-slate-300'}`} style={{ width: percentLabel(value) }}></div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Burn-down */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold uppercase tracking-wider text-slate-400">{labels.burnDown}</div>
+          <div className="text-xs text-slate-500">
+            {formatAmount(burnDown.points[burnDown.points.length - 1].remaining)} / {burnDown.total} {labels.remaining.toLowerCase()}
+          </div>
+        </div>
+        <BurnDownChart points={burnDown.points} total={burnDown.total} labels={labels} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Next actionable steps */}
+        <div className="space-y-3">
+          <div className="text-xs font-semibold uppercase tracking-wider text-slate-400">{labels.nextActions}</div>
+          {nextActions.length === 0 ? (
+            <p className="text-sm text-slate-400">{labels.noNextActions}</p>
+          ) : (
+            nextActions.map(action => (
+              <div key={action.step.id} className="flex items-start gap-3 p-3 rounded-xl border border-slate-100 bg-white hover:border-indigo-200 transition-colors">
+                <button
+                  onClick={() => onToggleComplete(action.step)}
+                  className="mt-0.5 text-slate-300 hover:text-green-500 transition-colors flex-shrink-0"
+                >
+                  <Circle className="w-4 h-4" />
+                </button>
+                <div className="min-w-0 text-sm">
+                  {action.path.length > 0 && (
+                    <div className="flex items-center gap-1 text-[11px] text-slate-400 truncate">
+                      <span className="font-bold">#{action.rootNumber}</span>
+                      {action.path.map((p, i) => (
+                        <React.Fragment key={i}>
+                          {i > 0 && <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+                          <span className="truncate">{p.replace(/[\[\]]/g, '')}</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
+                  <div className="text-slate-700">
+                    {action.path.length === 0 && <span className="font-bold text-slate-400 mr-1.5">#{action.rootNumber}</span>}
+                    <StepRenderer text={action.step.instruction} onResourceClick={onResourceClick} resourceStatuses={resourceStatuses} resourceTitle={labels.viewResource} />
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Recently completed */}
+        <div className="space-y-3">
+          <div className="text-xs font-semibold uppercase tracking-wider text-slate-400">{labels.recent}</div>
+          {recent.length === 0 ? (
+            <p className="text-sm text-slate-400">{labels.noRecent}</p>
+          ) : (
+            recent.map(step => (
+              <div key={step.id} className="flex items-start gap-3 text-sm">
+                <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-500 flex-shrink-0" />
+                <div className="min-w-0 flex-grow text-slate-500 truncate">{step.instruction.replace(/[\[\]]/g, '')}</div>
+                <span className="text-[10px] text-slate-400 font-mono flex-shrink-0">
+                  {new Date(step.completedAt!).toLocaleString(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,263 @@
-import React from 'react';
-import { Resource } from '../types';
-import { Box, Loader2, X } from './Icons';
+import React, { useState } from 'react';
+import { Resource, ResourceStatus, Step } from '../types';
+import { RESOURCE_STATUSES } from '../services/resourceInventory';
+import { interpolate } from '../translations';
+import { AlertCircle, ArrowLeft, Box, CheckCircle2, ChevronDown, ChevronRight, Circle, Loader2, Merge, X } from './Icons';
 import { StepRenderer } from './StepRenderer';
 
 interface ResourcePanelProps {
   resource: Resource | null;
-  onResourceClick: (name: string) => void;
+  otherResources: Resource[]; // Candidates to merge into this one
+  suggestions: Resource[]; // Near-identical spellings that may be the same resource
+  usage: Step[]; // Steps that use the resource
+  trail: Resource[]; // Resources opened on the way here, outermost first
+  cycle: Resource[] | null; // A loop of acquisition plans through this resource
+  onResourceClick: (name: string) => void; // Opens a sub-resource one level deeper
+  onBack: (index: number) => void; // Returns to the trail entry at this index
+  onToggleStep: (step: Step) => void;
+  onExpandStep: (step: Step) => void;
+  onUpdate: (resourceId: string, updates: Partial<Resource>) => void;
+  onMerge: (targetId: string, sourceId: string) => void;
+  onSplit: (resourceId: string, alias: string) => void;
   onClose: () => void;
   labels: {
+    viewResource: string;
     acquisitionPlan: string;
     generating: string;
+    noSteps: string;
+    status: string;
+    statuses: Record<ResourceStatus, string>;
+    quantity: string;
+    cost: string;
+    notes: string;
+    aliases: string;
+    split: string;
+    mergeWith: string;
+    mergeSuggestions: string;
+    usedIn: string;
+    notUsed: string;
+    back: string;
+    cycle: string; // "{path}" is replaced with the resources along the loop
+    expand: string;
+    collapse: string;
   }
 }
 
-export const ResourcePanel: React.FC<ResourcePanelProps> = ({ resource, onResourceClick, onClose, labels }) => {
+const STATUS_STYLES: Record<ResourceStatus, string> = {
+  owned: 'bg-emerald-500 border-emerald-500 text-white',
+  acquired: 'bg-emerald-500 border-emerald-500 text-white',
+  to_buy: 'bg-amber-500 border-amber-500 text-white',
+  to_learn: 'bg-amber-500 border-amber-500 text-white',
+};
+
+const parseAmount = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * Status, quantity, cost and notes for one resource. Text fields are saved when they lose
+ * focus so typing doesn't flood the undo history.
+ */
+const InventoryEditor: React.FC<{
+  resource: Resource;
+  onUpdate: (updates: Partial<Resource>) => void;
+  labels: ResourcePanelProps['labels'];
+}> = ({ resource, onUpdate, labels }) => {
+  const [quantity, setQuantity] = useState(resource.quantity !== undefined ? String(resource.quantity) : '');
+  const [cost, setCost] = useState(resource.costEstimate !== undefined ? String(resource.costEstimate) : '');
+  const [notes, setNotes] = useState(resource.notes || '');
+
+  const inputClasses = "w-full p-2 text-sm font-normal normal-case tracking-normal text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-slate-50";
+  const fieldLabelClasses = "text-[11px] font-semibold text-slate-400 uppercase tracking-wider space-y-1";
+
+  return (
+    <div className="p-5 border-b border-slate-100 space-y-3">
+      <div className="space-y-1.5">
+        <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.status}</div>
+        <div className="grid grid-cols-2 gap-1.5">
+          {RESOURCE_STATUSES.map(status => (
+            <button
+              key={status}
+              onClick={() => onUpdate({ status })}
+              className={`px-2 py-1.5 rounded-lg border text-xs font-semibold transition-colors ${resource.status === status ? STATUS_STYLES[status] : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600'}`}
+            >
+              {labels.statuses[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className={fieldLabelClasses}>
+          <span>{labels.quantity}</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            onBlur={() => parseAmount(quantity) !== resource.quantity && onUpdate({ quantity: parseAmount(quantity) })}
+            className={inputClasses}
+          />
+        </label>
+        <label className={fieldLabelClasses}>
+          <span>{labels.cost}</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={cost}
+            onChange={(e) => setCost(e.target.value)}
+            onBlur={() => parseAmount(cost) !== resource.costEstimate && onUpdate({ costEstimate: parseAmount(cost) })}
+            className={inputClasses}
+          />
+        </label>
+      </div>
+      <label className={`block ${fieldLabelClasses}`}>
+        <span>{labels.notes}</span>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => notes.trim() !== (resource.notes || '') && onUpdate({ notes: notes.trim() || undefined })}
+          rows={2}
+          className={`${inputClasses} resize-none`}
+        />
+      </label>
+    </div>
+  );
+};
+
+/**
+ * Where a resource is used, the other spellings it goes by, and merging in a duplicate
+ * the automatic matching missed.
+ */
+const RegistryEntry: React.FC<{
+  resource: Resource;
+  otherResources: Resource[];
+  suggestions: Resource[];
+  usage: Step[];
+  onMerge: (sourceId: string) => void;
+  onSplit: (alias: string) => void;
+  labels: ResourcePanelProps['labels'];
+}> = ({ resource, otherResources, suggestions, usage, onMerge, onSplit, labels }) => (
+  <div className="p-5 border-b border-slate-100 space-y-3">
+    <div className="space-y-1.5">
+      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.usedIn} ({usage.length})</div>
+      {usage.length === 0 ? (
+        <p className="text-xs text-slate-400">{labels.notUsed}</p>
+      ) : (
+        <ul className="space-y-1 text-xs text-slate-600">
+          {usage.map(step => (
+            <li key={step.id} className={`truncate ${step.isCompleted ? 'line-through text-slate-400' : ''}`}>{step.instruction.replace(/[\[\]]/g, '')}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+
+    {resource.aliases && resource.aliases.length > 0 && (
+      <div className="space-y-1.5">
+        <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.aliases}</div>
+        <div className="flex flex-wrap gap-1.5">
+          {resource.aliases.map(alias => (
+            <span key={alias} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md bg-slate-50 border border-slate-200 text-xs text-slate-600">
+              {alias}
+              <button onClick={() => onSplit(alias)} className="p-0.5 rounded text-slate-400 hover:text-red-500 hover:bg-red-50" title={labels.split}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+    )}
+
+    {suggestions.length > 0 && (
+      <div className="space-y-1.5">
+        <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.mergeSuggestions}</div>
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map(r => (
+            <button
+              key={r.id}
+              onClick={() => onMerge(r.id)}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-amber-50 border border-amber-100 text-xs text-amber-700 hover:bg-amber-100 transition-colors"
+            >
+              <Merge className="w-3 h-3" /> {r.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    )}
+
+    {otherResources.length > 0 && (
+      <label className="flex items-center gap-2 text-xs text-slate-500">
+        <Merge className="w-3.5 h-3.5 flex-shrink-0" />
+        <select
+          value=""
+          onChange={(e) => e.target.value && onMerge(e.target.value)}
+          className="flex-grow min-w-0 px-2 py-1.5 rounded-lg border border-slate-200 bg-slate-50 text-slate-600 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+        >
+          <option value="">{labels.mergeWith}</option>
+          {otherResources.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+      </label>
+    )}
+  </div>
+);
+
+/** One acquisition step: checkable, and broken down into sub-steps on demand like a plan step. */
+const AcquisitionStep: React.FC<{
+  step: Step;
+  onResourceClick: (name: string) => void;
+  onToggle: (step: Step) => void;
+  onExpand: (step: Step) => void;
+  labels: ResourcePanelProps['labels'];
+}> = ({ step, onResourceClick, onToggle, onExpand, labels }) => (
+  <div className="space-y-2">
+    <div className="flex items-start gap-2">
+      <button
+        onClick={() => onToggle(step)}
+        className={`mt-0.5 flex-shrink-0 transition-colors ${step.isCompleted ? 'text-green-500' : 'text-slate-300 hover:text-green-500'}`}
+      >
+        {step.isCompleted ? <CheckCircle2 className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+      </button>
+      <div className={`flex-grow text-sm leading-relaxed ${step.isCompleted ? 'text-slate-400 line-through' : 'text-slate-700'}`}>
+        <StepRenderer text={step.instruction} onResourceClick={onResourceClick} resourceTitle={labels.viewResource} />
+      </div>
+      <button
+        onClick={() => onExpand(step)}
+        disabled={step.loading}
+        className="p-1 -mt-0.5 flex-shrink-0 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+        title={step.isExpanded ? labels.collapse : labels.expand}
+      >
+        {step.loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : step.isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+    </div>
+    {step.isExpanded && step.subSteps && step.subSteps.length > 0 && (
+      <div className="ml-2 pl-4 border-l-2 border-slate-100 space-y-2">
+        {step.subSteps.map(sub => (
+          <AcquisitionStep key={sub.id} step={sub} onResourceClick={onResourceClick} onToggle={onToggle} onExpand={onExpand} labels={labels} />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const ResourcePanel: React.FC<ResourcePanelProps> = ({
+  resource,
+  otherResources,
+  suggestions,
+  usage,
+  trail,
+  cycle,
+  onResourceClick,
+  onBack,
+  onToggleStep,
+  onExpandStep,
+  onUpdate,
+  onMerge,
+  onSplit,
+  onClose,
+  labels
+}) => {
   if (!resource) return null;
 
   return (
@@ -36,6 +280,52 @@ export const ResourcePanel: React.FC<ResourcePanelProps> = ({ resource, onResour
         </button>
       </div>
 
+      {trail.length > 0 && (
+        <div className="px-5 py-2.5 border-b border-slate-100 flex items-center gap-1.5 text-xs text-slate-500 overflow-x-auto custom-scrollbar">
+          <button
+            onClick={() => onBack(trail.length - 1)}
+            className="p-1 -ml-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 flex-shrink-0 transition-colors"
+            title={labels.back}
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+          </button>
+          {trail.map((entry, index) => (
+            <React.Fragment key={entry.id}>
+              <button onClick={() => onBack(index)} className="max-w-[8rem] truncate flex-shrink-0 hover:text-indigo-600 transition-colors">
+                {entry.name}
+              </button>
+              <ChevronRight className="w-3 h-3 flex-shrink-0 text-slate-300" />
+            </React.Fragment>
+          ))}
+          <span className="max-w-[8rem] truncate flex-shrink-0 font-semibold text-slate-700">{resource.name}</span>
+        </div>
+      )}
+
+      {cycle && (
+        <div className="mx-5 mt-4 p-3 rounded-xl bg-amber-50 border border-amber-100 flex items-start gap-2 text-xs text-amber-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{interpolate(labels.cycle, { path: cycle.map(r => r.name).join(' → ') })}</span>
+        </div>
+      )}
+
+      {/* Remounts when the saved values change (e.g. on undo) so the fields never go stale */}
+      <InventoryEditor
+        key={`${resource.id}-${resource.quantity}-${resource.costEstimate}-${resource.notes}`}
+        resource={resource}
+        onUpdate={(updates) => onUpdate(resource.id, updates)}
+        labels={labels}
+      />
+
+      <RegistryEntry
+        resource={resource}
+        otherResources={otherResources}
+        suggestions={suggestions}
+        usage={usage}
+        onMerge={(sourceId) => onMerge(resource.id, sourceId)}
+        onSplit={(alias) => onSplit(resource.id, alias)}
+        labels={labels}
+      />
+
       <div className="p-6 max-h-[calc(100vh-200px)] overflow-y-auto custom-scrollbar">
         {resource.loading ? (
           <div className="flex flex-col items-center justify-center py-8 text-slate-400 gap-3">
@@ -44,7 +334,7 @@ export const ResourcePanel: React.FC<ResourcePanelProps> = ({ resource, onResour
           </div>
         ) : (
           resource.acquisitionSteps && resource.acquisitionSteps.length > 0 ? (
-            <div className="space-y-6">
+            <div className="space-y-4">
               {resource.acquisitionSteps.map((step, idx) => (
                 <div key={step.id} className="flex gap-4 group">
                   <div className="flex flex-col items-center">
@@ -55,16 +345,14 @@ export const ResourcePanel: React.FC<ResourcePanelProps> = ({ resource, onResour
                       <div className="w-0.5 flex-grow bg-slate-100 my-1 group-hover:bg-indigo-100 transition-colors"></div>
                     )}
                   </div>
-                  <div className="pb-2">
-                    <div className="text-sm text-slate-700 leading-relaxed">
-                      <StepRenderer text={step.instruction} onResourceClick={onResourceClick} />
-                    </div>
+                  <div className="flex-grow min-w-0 pb-2">
+                    <AcquisitionStep step={step} onResourceClick={onResourceClick} onToggle={onToggleStep} onExpand={onExpandStep} labels={labels} />
                   </div>
                 </div>
               ))}
             </div>
           ) : (
-            <p className="text-sm text-slate-500 italic">No specific steps found.</p>
+            <p className="text-sm text-slate-500 italic">{labels.noSteps}</p>
           )
         )}
       </div>
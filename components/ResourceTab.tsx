@@ -1,75 +1,144 @@
-import React from 'react';
-import { Resource, Step } from '../types';
-import { Box, ChevronDown, ChevronRight, Loader2 } from './Icons';
-import { StepRenderer } from './StepRenderer';
+import React, { useMemo, useState } from 'react';
+import { Resource, ResourceStatus, Step } from '../types';
+import { formatMoney } from '../services/planBudget';
+import { PluralMessage, pluralize } from '../translations';
+import { getResourceOverview, ResourceFilter, ResourceOverviewEntry } from '../services/resourceInventory';
+import { Box, Check, ClipboardList, Filter } from './Icons';
 
 interface ResourceTabProps {
   resources: Resource[];
-  onExpandResource: (resourceId: string, resourceName: string) => void;
-  onResourceClick: (name: string) => void; // For recursive resource clicking if needed
+  usage: Map<string, Step[]>;
+  currency: string;
+  locale: string;
+  onResourceClick: (name: string) => void;
+  onStepClick: (stepId: string) => void;
+  labels: {
+    empty: string;
+    noMatches: string;
+    steps: PluralMessage;
+    notAcquired: string;
+    upcoming: string;
+    copyList: string;
+    copied: string;
+    unassessed: string;
+    statuses: Record<ResourceStatus, string>;
+  }
 }
 
-export const ResourceTab: React.FC<ResourceTabProps> = ({ resources, onExpandResource, onResourceClick }) => {
-  if (resources.length === 0) {
+const FILTERS: ResourceFilter[] = ['notAcquired', 'upcoming'];
+
+const STATUS_STYLES: Record<ResourceStatus, string> = {
+  owned: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  acquired: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  to_buy: 'bg-amber-50 text-amber-700 border-amber-100',
+  to_learn: 'bg-amber-50 text-amber-700 border-amber-100',
+};
+
+const COPIED_MS = 2000;
+
+/**
+ * Every resource the plan uses, with the steps that need it. Filtered down to what isn't
+ * acquired yet and still needed, it doubles as a shopping or onboarding list.
+ */
+export const ResourceTab: React.FC<ResourceTabProps> = ({ resources, usage, currency, locale, onResourceClick, onStepClick, labels }) => {
+  const [filters, setFilters] = useState<Set<ResourceFilter>>(new Set());
+  const [copied, setCopied] = useState(false);
+
+  const entries = useMemo(() => getResourceOverview(resources, usage, filters), [resources, usage, filters]);
+  const hasAny = useMemo(() => resources.some(r => (usage.get(r.id) || []).length > 0), [resources, usage]);
+
+  const toggleFilter = (filter: ResourceFilter) => {
+    setFilters(prev => {
+      const next = new Set(prev);
+      if (next.has(filter)) next.delete(filter);
+      else next.add(filter);
+      return next;
+    });
+  };
+
+  const describe = ({ resource }: ResourceOverviewEntry) => [
+    resource.quantity !== undefined ? `${resource.quantity} ×` : '',
+    resource.name,
+    resource.costEstimate !== undefined ? `(${formatMoney(resource.costEstimate, currency, locale)})` : '',
+  ].filter(Boolean).join(' ');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(entries.map(entry => `- ${describe(entry)}`).join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_MS);
+    } catch (error) {
+      console.error('Failed to copy resource list', error);
+    }
+  };
+
+  if (!hasAny) {
     return (
-      <div className="flex flex-col items-center justify-center h-64 text-slate-400">
-        <Box className="w-12 h-12 mb-4 opacity-50" />
-        <p className="text-lg">No resources identified yet.</p>
-        <p className="text-sm">Generate strategies to find needed tools.</p>
+      <div className="flex flex-col items-center justify-center h-48 text-slate-400">
+        <Box className="w-10 h-10 mb-3 opacity-50" />
+        <p className="text-sm">{labels.empty}</p>
       </div>
     );
   }
 
   return (
     <div className="space-y-4">
-      <h2 className="text-xl font-semibold text-slate-800 mb-6 flex items-center gap-2">
-        <Box className="w-6 h-6 text-blue-500" />
-        Acquisition Plans
-      </h2>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {resources.map((resource) => (
-          <div key={resource.id} className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow">
-            <div 
-              className="p-4 flex items-center justify-between cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors"
-              onClick={() => onExpandResource(resource.id, resource.name)}
-            >
-              <div className="flex items-center gap-3">
-                <div className="w-8 h-8 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
-                  <Box className="w-4 h-4" />
-                </div>
-                <h3 className="font-semibold text-slate-800">{resource.name}</h3>
-              </div>
-              <div className="text-slate-400">
-                {resource.loading ? (
-                   <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
-                ) : resource.isExpanded ? (
-                  <ChevronDown className="w-5 h-5" />
-                ) : (
-                  <ChevronRight className="w-5 h-5" />
+      <div className="flex flex-wrap items-center gap-2">
+        <Filter className="w-4 h-4 text-slate-400" />
+        {FILTERS.map(filter => (
+          <button
+            key={filter}
+            onClick={() => toggleFilter(filter)}
+            className={`px-3 py-1.5 rounded-full border text-xs font-semibold transition-colors ${filters.has(filter) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600'}`}
+          >
+            {labels[filter]}
+          </button>
+        ))}
+        <button
+          onClick={handleCopy}
+          disabled={entries.length === 0}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:border-indigo-300 hover:text-indigo-600 transition-colors disabled:opacity-50"
+        >
+          {copied ? <Check className="w-3.5 h-3.5 text-green-500" /> : <ClipboardList className="w-3.5 h-3.5" />}
+          {copied ? labels.copied : labels.copyList}
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="py-8 text-center text-sm text-slate-400">{labels.noMatches}</p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(({ resource, steps }) => (
+            <div key={resource.id} className="p-4 rounded-xl border border-slate-100 bg-white hover:border-indigo-200 transition-colors">
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => onResourceClick(resource.name)} className="font-semibold text-slate-800 hover:text-indigo-600 transition-colors">
+                  {resource.name}
+                </button>
+                <span className={`px-2 py-0.5 rounded-full border text-[11px] font-semibold ${resource.status ? STATUS_STYLES[resource.status] : 'bg-slate-50 text-slate-400 border-slate-100'}`}>
+                  {resource.status ? labels.statuses[resource.status] : labels.unassessed}
+                </span>
+                {resource.quantity !== undefined && <span className="text-xs text-slate-500">× {resource.quantity}</span>}
+                {resource.costEstimate !== undefined && (
+                  <span className="text-xs font-mono text-slate-500">{formatMoney(resource.costEstimate, currency, locale)}</span>
                 )}
+                <span className="ml-auto text-xs text-slate-400">{pluralize(labels.steps, steps.length, locale)}</span>
               </div>
-            </div>
-            
-            {resource.isExpanded && resource.acquisitionSteps && (
-              <div className="p-4 border-t border-slate-100 bg-white">
-                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">How to acquire</h4>
-                <ul className="space-y-3">
-                  {resource.acquisitionSteps.map((step, idx) => (
-                    <li key={step.id} className="flex gap-3 text-sm text-slate-600">
-                      <span className="flex-shrink-0 w-5 h-5 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center text-xs font-mono">
-                        {idx + 1}
-                      </span>
-                      <div className="leading-relaxed">
-                         <StepRenderer text={step.instruction} onResourceClick={onResourceClick} />
-                      </div>
-                    </li>
-                  ))}
-                </ul>
+              <div className="mt-3 flex flex-wrap gap-1.5">
+                {steps.map(step => (
+                  <button
+                    key={step.id}
+                    onClick={() => onStepClick(step.id)}
+                    title={step.instruction.replace(/[\[\]]/g, '')}
+                    className={`max-w-xs truncate px-2 py-1 rounded-lg text-xs border transition-colors ${step.isCompleted ? 'line-through text-slate-400 border-slate-100 bg-slate-50' : 'text-slate-600 border-slate-200 bg-white hover:border-indigo-300 hover:text-indigo-600'}`}
+                  >
+                    {step.instruction.replace(/[\[\]]/g, '')}
+                  </button>
+                ))}
               </div>
-            )}
-          </div>
-        ))}
-      </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,7 +1,13 @@
-import React, { useState } from 'react';
-import { Step, PlanItem } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Step, PlanItem, ResourceStatus } from '../types';
+import { buildPlanGraph } from '../services/planGraph';
+import { createManualStep, DropPosition, PlanEdit } from '../services/planEditing';
+import { isResourceMissing } from '../services/resourceInventory';
+import { formatAmount, getStepDuration, getStepEffort, StepEstimate } from '../services/planSchedule';
+import { formatMoney, getStepCost } from '../services/planBudget';
+import { formatShortDate, StepDates } from '../services/planCalendar';
 import { StepRenderer } from './StepRenderer';
-import { Plus, Minus, Loader2, Layers, CheckCircle2, Circle, Edit3, RefreshCw, Save, X } from './Icons';
+import { Plus, Minus, Loader2, Layers, CheckCircle2, Circle, Edit3, RefreshCw, Save, X, Clock, CalendarDays, GripVertical, MoreHorizontal, ArrowUp, ArrowDown, IndentIncrease, IndentDecrease, Columns3, Trash2, Wallet } from './Icons';
 
 interface StepListProps {
   items: PlanItem[]; 
@@ -10,7 +16,16 @@ interface StepListProps {
   onToggleComplete: (step: Step) => void;
   onEditStep: (step: Step, newText: string, mode: 'save' | 'substeps' | 'future') => void;
   onRegenerateStep: (step: Step) => void;
+  onEstimateStep: (step: Step, estimate: StepEstimate) => void;
+  onScheduleStep: (step: Step, date: string | undefined) => void;
+  onRestructure: (edit: PlanEdit) => void;
+  stepDates: Map<string, StepDates>;
+  resourceStatuses: Map<string, ResourceStatus>;
+  revealStepId: string | null; // Scrolled into view and highlighted, e.g. after a click in the resources view
+  currency: string;
+  locale: string;
   labels: {
+    viewResource: string;
     expand: string;
     collapse: string;
     simultaneous: string;
@@ -22,9 +37,57 @@ interface StepListProps {
     actionJustSave: string;
     actionSubsteps: string;
     actionFuture: string;
+    after: string;
+    ready: string;
+    durationDays: string;
+    effortHours: string;
+    costEstimate: string;
+    daysShort: string;
+    hoursShort: string;
+    scheduledDate: string;
+    estimatesFromSubSteps: string;
+    back: string;
+    newStep: string;
+    addStep: string;
+    moreActions: string;
+    dragStep: string;
+    addBelow: string;
+    moveUp: string;
+    moveDown: string;
+    indent: string;
+    outdent: string;
+    runParallel: string;
+    runAlone: string;
+    deleteStep: string;
+    confirmDeleteStep: string;
+    dropParallel: string;
+    shortcutsHint: string;
+    completedAt: string;
+    waitingOnResources: string;
   }
 }
 
+interface DependencyBadge {
+  number: number;
+  done: boolean;
+}
+
+// Shared by every step so a drag can start in one branch of the tree and end in another
+interface StepStructure {
+  onEdit: (edit: PlanEdit) => void; // `step` is filled in by the list for additions
+  onAddAfter: (stepId: string) => void;
+  autoEditId: string | null; // A just-added step opens in edit mode
+  focusRequestId: string | null; // Keeps keyboard focus on a step after it moves
+  onFocusHandled: () => void;
+  revealId: string | null;
+  draggingId: string | null;
+  dropTarget: { stepId: string; position: DropPosition } | null;
+  onDragStart: (stepId: string) => void;
+  onDragOver: (stepId: string, position: DropPosition) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
 interface RecursiveStepProps {
   step: Step;
   index: number;
@@ -34,9 +97,22 @@ interface RecursiveStepProps {
   onComplete: (s: Step) => void;
   onEdit: (s: Step, txt: string, mode: 'save' | 'substeps' | 'future') => void;
   onRegenerate: (s: Step) => void;
+  onEstimate: (s: Step, estimate: StepEstimate) => void;
+  onSchedule: (s: Step, date: string | undefined) => void;
+  stepDates: Map<string, StepDates>;
+  resourceStatuses: Map<string, ResourceStatus>;
+  formatCost: (amount: number) => string;
+  structure: StepStructure;
   labels: StepListProps['labels'];
   isLast: boolean;
   isParallel?: boolean;
+  isInGroup?: boolean; // Root step that belongs to a parallel group in the plan
+  // Root-step dependency info from the plan graph
+  dependencies?: DependencyBadge[];
+  isReady?: boolean;
+  isWaitingOnResources?: boolean;
+  isHighlighted?: boolean;
+  onFocus?: (stepId: string | null) => void;
 }
 
 const RecursiveStep: React.FC<RecursiveStepProps> = ({ 
@@ -48,20 +124,61 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
   onComplete,
   onEdit,
   onRegenerate,
+  onEstimate,
+  onSchedule,
+  stepDates,
+  resourceStatuses,
+  formatCost,
+  structure,
   labels, 
   isLast, 
-  isParallel 
+  isParallel,
+  isInGroup,
+  dependencies = [],
+  isReady,
+  isWaitingOnResources,
+  isHighlighted,
+  onFocus
 }) => {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editText, setEditText] = useState(step.instruction);
+  const isNew = structure.autoEditId === step.id;
+  const [isEditing, setIsEditing] = useState(isNew);
+  const [editText, setEditText] = useState(isNew ? '' : step.instruction);
   const [showPostEditOptions, setShowPostEditOptions] = useState(false);
+  const [editDuration, setEditDuration] = useState('');
+  const [editEffort, setEditEffort] = useState('');
+  const [editCost, setEditCost] = useState('');
+  const [editDate, setEditDate] = useState('');
+  const [showMenu, setShowMenu] = useState(false);
+  const rowRef = useRef<HTMLDivElement>(null);
 
   const isRoot = depth === 0;
+  const dropPosition = structure.dropTarget?.stepId === step.id ? structure.dropTarget.position : null;
+  const canDropHere = !!structure.draggingId && structure.draggingId !== step.id;
+
+  useEffect(() => {
+    if (structure.focusRequestId !== step.id) return;
+    rowRef.current?.focus();
+    structure.onFocusHandled();
+  }, [structure.focusRequestId]);
+
+  const isRevealed = structure.revealId === step.id;
+  useEffect(() => {
+    if (isRevealed) rowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [isRevealed]);
+  const duration = getStepDuration(step);
+  const effort = getStepEffort(step);
+  const cost = getStepCost(step);
+  // A broken-down step's estimates are its sub-steps' totals, so its own can't be edited
+  const hasSubSteps = !!step.subSteps && step.subSteps.length > 0;
+  const dates = stepDates.get(step.id);
 
   // Determine container styling based on depth and parallel status
   const containerClasses = isRoot 
     ? (isParallel ? 'flex-col h-full bg-slate-50 border border-slate-200 rounded-xl p-4 hover:border-indigo-200 transition-colors' : '') 
     : '';
+  const highlightClasses = isRevealed
+    ? 'ring-2 ring-indigo-300 ring-offset-4 rounded-xl bg-indigo-50/50'
+    : isHighlighted ? 'ring-2 ring-amber-200 ring-offset-4 rounded-xl' : '';
 
   const wrapperClasses = `relative ${isRoot ? (isParallel ? 'h-full' : 'pb-8 last:pb-0') : 'pb-4 last:pb-0'}`;
 
@@ -71,6 +188,10 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
 
   const handleStartEdit = () => {
     setEditText(step.instruction);
+    setEditDuration(step.durationDays !== undefined ? String(step.durationDays) : '');
+    setEditEffort(step.effortHours !== undefined ? String(step.effortHours) : '');
+    setEditCost(step.costEstimate !== undefined ? String(step.costEstimate) : '');
+    setEditDate(step.scheduledDate || '');
     setIsEditing(true);
     setShowPostEditOptions(false);
   };
@@ -81,9 +202,22 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
     setEditText(step.instruction);
   };
 
+  const parseEstimateInput = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
   const handlePreSave = () => {
-    // If text didn't change significantly, just save.
-    if (editText.trim() === step.instruction.trim()) {
+    const estimate = { durationDays: parseEstimateInput(editDuration), effortHours: parseEstimateInput(editEffort), costEstimate: parseEstimateInput(editCost) };
+    if (!hasSubSteps && (estimate.durationDays !== step.durationDays || estimate.effortHours !== step.effortHours || estimate.costEstimate !== step.costEstimate)) {
+      onEstimate(step, estimate);
+    }
+    if ((editDate || undefined) !== step.scheduledDate) {
+      onSchedule(step, editDate || undefined);
+    }
+
+    // If text didn't change significantly (or was cleared), just save.
+    if (!editText.trim() || editText.trim() === step.instruction.trim()) {
       setIsEditing(false);
       return;
     }
@@ -96,26 +230,110 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
     setShowPostEditOptions(false);
   };
 
+  const runStructureAction = (action: 'add' | 'delete' | 'up' | 'down' | 'indent' | 'outdent' | 'parallel') => {
+    setShowMenu(false);
+    switch (action) {
+      case 'add': return structure.onAddAfter(step.id);
+      case 'delete': return window.confirm(labels.confirmDeleteStep) && structure.onEdit({ type: 'delete', stepId: step.id });
+      case 'up': return structure.onEdit({ type: 'shift', stepId: step.id, direction: -1 });
+      case 'down': return structure.onEdit({ type: 'shift', stepId: step.id, direction: 1 });
+      case 'indent': return structure.onEdit({ type: 'indent', stepId: step.id });
+      case 'outdent': return structure.onEdit({ type: 'outdent', stepId: step.id });
+      case 'parallel': return structure.onEdit({ type: 'toggleParallel', stepId: step.id });
+    }
+  };
+
+  // Shortcuts apply to the selected step row only, never while typing inside it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || isEditing) return;
+    const shortcuts: Record<string, () => void> = e.altKey
+      ? {
+          ArrowUp: () => runStructureAction('up'),
+          ArrowDown: () => runStructureAction('down'),
+          ArrowRight: () => runStructureAction('indent'),
+          ArrowLeft: () => runStructureAction('outdent'),
+          KeyP: () => isRoot && runStructureAction('parallel'),
+        }
+      : {
+          Enter: () => runStructureAction('add'),
+          F2: handleStartEdit,
+          Delete: () => runStructureAction('delete'),
+        };
+    const run = shortcuts[e.altKey ? e.code : e.key];
+    if (!run || e.ctrlKey || e.metaKey) return;
+    e.preventDefault();
+    run();
+  };
+
+  // Top and bottom quarters drop next to the step, the middle drops into it
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canDropHere) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    structure.onDragOver(step.id, offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside');
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    structure.onDrop();
+  };
+
+  const menuItems: { action: Parameters<typeof runStructureAction>[0]; label: string; icon: React.ReactNode; keys: string }[] = [
+    { action: 'add', label: labels.addBelow, icon: <Plus className="w-3.5 h-3.5" />, keys: 'Enter' },
+    { action: 'up', label: labels.moveUp, icon: <ArrowUp className="w-3.5 h-3.5" />, keys: 'Alt+↑' },
+    { action: 'down', label: labels.moveDown, icon: <ArrowDown className="w-3.5 h-3.5" />, keys: 'Alt+↓' },
+    { action: 'indent', label: labels.indent, icon: <IndentIncrease className="w-3.5 h-3.5" />, keys: 'Alt+→' },
+    ...(!isRoot ? [{ action: 'outdent' as const, label: labels.outdent, icon: <IndentDecrease className="w-3.5 h-3.5" />, keys: 'Alt+←' }] : []),
+    ...(isRoot ? [{ action: 'parallel' as const, label: isInGroup ? labels.runAlone : labels.runParallel, icon: <Columns3 className="w-3.5 h-3.5" />, keys: 'Alt+P' }] : []),
+    { action: 'delete', label: labels.deleteStep, icon: <Trash2 className="w-3.5 h-3.5" />, keys: 'Del' },
+  ];
+
   return (
-    <div className={wrapperClasses}>
+    <div
+      className={wrapperClasses}
+      onMouseEnter={isRoot && onFocus ? () => onFocus(step.id) : undefined}
+      onMouseLeave={isRoot && onFocus ? () => onFocus(null) : undefined}
+    >
       
       {/* Vertical Connector Line */}
       {!isLast && !isParallel && (
         <div className={`absolute ${linePositionClass} w-0.5 h-[calc(100%-8px)] bg-slate-200 -z-10`}></div>
       )}
 
-      <div className={`flex items-start gap-4 group ${containerClasses}`}>
+      <div
+        ref={rowRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        className={`relative flex items-start gap-4 group transition-shadow outline-none focus-visible:ring-2 focus-visible:ring-indigo-300 focus-visible:ring-offset-4 rounded-xl ${containerClasses} ${highlightClasses} ${dropPosition === 'inside' ? 'ring-2 ring-indigo-400 ring-offset-4 bg-indigo-50/50' : ''} ${structure.draggingId === step.id ? 'opacity-40' : ''}`}
+      >
+        {/* Drop Indicators */}
+        {dropPosition === 'before' && <div className="absolute -top-3 left-0 right-0 h-0.5 bg-indigo-500 rounded-full"></div>}
+        {dropPosition === 'after' && <div className="absolute -bottom-3 left-0 right-0 h-0.5 bg-indigo-500 rounded-full"></div>}
+        {isRoot && canDropHere && (
+          <div
+            onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); structure.onDragOver(step.id, 'parallel'); }}
+            onDrop={handleDrop}
+            className={`absolute -top-3 right-0 z-20 flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider transition-colors ${dropPosition === 'parallel' ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-indigo-200 text-indigo-500'}`}
+          >
+            <Columns3 className="w-3 h-3" /> {labels.dropParallel}
+          </div>
+        )}
         
         {/* Number/Check Icon */}
         <div className="relative">
           <button 
             onClick={() => onComplete(step)}
+            title={step.completedAt ? `${labels.completedAt} ${new Date(step.completedAt).toLocaleString()}` : undefined}
             className={`
               flex-shrink-0 ${iconSizeClass} rounded-full flex items-center justify-center font-bold shadow-sm z-10 transition-all duration-300
               ${step.isCompleted 
                 ? 'bg-green-100 border-2 border-green-500 text-green-600' 
-                : (!isParallel || !isRoot) ? 'bg-white border-2 border-indigo-100 text-indigo-600 group-hover:border-indigo-500' : ''}
-              ${(isParallel && isRoot && !step.isCompleted) ? 'hidden' : ''} 
+                : 'bg-white border-2 border-indigo-100 text-indigo-600 group-hover:border-indigo-500'}
             `}
           >
             {step.isCompleted ? <CheckCircle2 className="w-full h-full p-1" /> : (index + 1)}
@@ -144,17 +362,14 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
                         >
                            {labels.actionSubsteps}
                         </button>
-                        {/* Only show future updates for root steps to avoid extreme complexity */}
-                        {isRoot && (
-                          <button 
-                             onClick={() => handleConfirmAction('future')}
-                             className="px-3 py-1.5 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded-lg text-xs font-medium transition-colors border border-amber-200"
-                          >
-                             {labels.actionFuture}
-                          </button>
-                        )}
+                        <button 
+                           onClick={() => handleConfirmAction('future')}
+                           className="px-3 py-1.5 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded-lg text-xs font-medium transition-colors border border-amber-200"
+                        >
+                           {labels.actionFuture}
+                        </button>
                       </div>
-                      <button onClick={() => setShowPostEditOptions(false)} className="text-xs text-slate-400 hover:text-slate-600 underline decoration-dotted">Back</button>
+                      <button onClick={() => setShowPostEditOptions(false)} className="text-xs text-slate-400 hover:text-slate-600 underline decoration-dotted">{labels.back}</button>
                    </div>
                  ) : (
                     <>
@@ -165,6 +380,56 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
                         rows={3}
                         autoFocus
                       />
+                      <div className="grid grid-cols-2 gap-2">
+                        {hasSubSteps ? (
+                          <p className="self-end text-xs text-slate-400">{labels.estimatesFromSubSteps}</p>
+                        ) : (
+                          <>
+                            <label className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider space-y-1">
+                              <span>{labels.durationDays}</span>
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={editDuration}
+                                onChange={(e) => setEditDuration(e.target.value)}
+                                className="w-full p-2 text-sm font-normal normal-case text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-slate-50"
+                              />
+                            </label>
+                            <label className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider space-y-1">
+                              <span>{labels.effortHours}</span>
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={editEffort}
+                                onChange={(e) => setEditEffort(e.target.value)}
+                                className="w-full p-2 text-sm font-normal normal-case text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-slate-50"
+                              />
+                            </label>
+                            <label className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider space-y-1">
+                              <span>{labels.costEstimate}</span>
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={editCost}
+                                onChange={(e) => setEditCost(e.target.value)}
+                                className="w-full p-2 text-sm font-normal normal-case text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-slate-50"
+                              />
+                            </label>
+                          </>
+                        )}
+                        <label className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider space-y-1">
+                          <span>{labels.scheduledDate}</span>
+                          <input
+                            type="date"
+                            value={editDate}
+                            onChange={(e) => setEditDate(e.target.value)}
+                            className="w-full p-2 text-sm font-normal normal-case text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-slate-50"
+                          />
+                        </label>
+                      </div>
                       <div className="flex justify-end gap-2">
                         <button onClick={handleCancelEdit} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg transition-colors" title={labels.cancel}>
                           <X className="w-4 h-4" />
@@ -179,11 +444,25 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
             ) : (
               <div className="flex items-start justify-between gap-4">
                  <div className={`text-slate-700 leading-relaxed ${isRoot ? 'text-base' : 'text-sm'} ${step.isCompleted ? 'line-through text-slate-400 decoration-slate-300' : ''}`}>
-                   <StepRenderer text={step.instruction} onResourceClick={onResource} />
+                   <StepRenderer text={step.instruction} onResourceClick={onResource} resourceStatuses={resourceStatuses} resourceTitle={labels.viewResource} />
                  </div>
                  
                  {/* Hover Actions */}
-                 <div className="flex items-center gap-1 opacity-0 group-hover/content:opacity-100 transition-opacity">
+                 <div className={`relative flex items-center gap-1 transition-opacity ${showMenu ? 'opacity-100' : 'opacity-0 group-hover/content:opacity-100'}`}>
+                    <button
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', step.id);
+                        if (rowRef.current) e.dataTransfer.setDragImage(rowRef.current, 16, 16);
+                        structure.onDragStart(step.id);
+                      }}
+                      onDragEnd={structure.onDragEnd}
+                      className="p-1.5 text-slate-300 hover:text-slate-500 hover:bg-slate-100 rounded-lg transition-colors cursor-grab active:cursor-grabbing"
+                      title={labels.dragStep}
+                    >
+                      <GripVertical className="w-3.5 h-3.5" />
+                    </button>
                     <button 
                       onClick={handleStartEdit}
                       className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
@@ -198,11 +477,80 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
                     >
                       <RefreshCw className={`w-3.5 h-3.5 ${step.loading ? 'animate-spin' : ''}`} />
                     </button>
+                    <button
+                      onClick={() => setShowMenu(!showMenu)}
+                      className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                      title={labels.moreActions}
+                    >
+                      <MoreHorizontal className="w-3.5 h-3.5" />
+                    </button>
+
+                    {showMenu && (
+                      <>
+                        <div className="fixed inset-0 z-20" onClick={() => setShowMenu(false)}></div>
+                        <div className="absolute right-0 top-8 z-30 w-64 bg-white rounded-xl border border-slate-200 shadow-xl shadow-slate-200/50 p-1 animate-in fade-in zoom-in-95 duration-150">
+                          {menuItems.map(item => (
+                            <button
+                              key={item.action}
+                              onClick={() => runStructureAction(item.action)}
+                              className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${item.action === 'delete' ? 'text-rose-600 hover:bg-rose-50' : 'text-slate-700 hover:bg-slate-50'}`}
+                            >
+                              {item.icon}
+                              <span className="flex-grow">{item.label}</span>
+                              <span className="text-[10px] font-mono text-slate-400">{item.keys}</span>
+                            </button>
+                          ))}
+                        </div>
+                      </>
+                    )}
                  </div>
               </div>
             )}
           </div>
           
+          {/* Estimate (rolled up from sub-steps when broken down) */}
+          {!isEditing && (duration !== undefined || effort !== undefined || cost !== undefined || dates) && (
+            <div className="mt-1.5 flex items-center gap-1.5 text-[11px] font-medium text-slate-400">
+              {(duration !== undefined || effort !== undefined) && <Clock className="w-3 h-3" />}
+              {duration !== undefined && <span>{formatAmount(duration)}{labels.daysShort}</span>}
+              {duration !== undefined && effort !== undefined && <span>·</span>}
+              {effort !== undefined && <span>{formatAmount(effort)}{labels.hoursShort}</span>}
+              {cost !== undefined && (
+                <span className={`flex items-center gap-1 ${duration !== undefined || effort !== undefined ? 'ml-2' : ''}`}>
+                  <Wallet className="w-3 h-3" /> {formatCost(cost)}
+                </span>
+              )}
+              {dates && (
+                <span className={`flex items-center gap-1 ${duration !== undefined || effort !== undefined || cost !== undefined ? 'ml-2' : ''} ${step.scheduledDate ? 'text-indigo-500' : ''}`}>
+                  <CalendarDays className="w-3 h-3" /> {formatShortDate(dates.start)}
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Dependency Badges */}
+          {isRoot && !isEditing && (isReady || isWaitingOnResources || dependencies.length > 0) && (
+            <div className="mt-2 flex flex-wrap items-center gap-1.5 text-[11px] font-semibold">
+              {isReady && (
+                <span className="px-2 py-0.5 rounded-full bg-green-50 text-green-700 border border-green-100">{labels.ready}</span>
+              )}
+              {isWaitingOnResources && (
+                <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-100">{labels.waitingOnResources}</span>
+              )}
+              {dependencies.length > 0 && (
+                <span className="text-slate-400 uppercase tracking-wider">{labels.after}</span>
+              )}
+              {dependencies.map(dep => (
+                <span
+                  key={dep.number}
+                  className={`px-1.5 py-0.5 rounded-md border ${dep.done ? 'bg-slate-50 text-slate-400 border-slate-100 line-through' : 'bg-amber-50 text-amber-700 border-amber-100'}`}
+                >
+                  #{dep.number}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Expansion Toggle Button */}
           {!isEditing && (
             <div className="mt-2">
@@ -250,6 +598,12 @@ const RecursiveStep: React.FC<RecursiveStepProps> = ({
                     onComplete={onComplete}
                     onEdit={onEdit}
                     onRegenerate={onRegenerate}
+                    onEstimate={onEstimate}
+                    onSchedule={onSchedule}
+                    stepDates={stepDates}
+                    resourceStatuses={resourceStatuses}
+                    formatCost={formatCost}
+                    structure={structure}
                     labels={labels}
                     isLast={i === step.subSteps!.length - 1}
                  />
@@ -269,74 +623,159 @@ export const StepList: React.FC<StepListProps> = ({
   onToggleComplete, 
   onEditStep,
   onRegenerateStep,
+  onEstimateStep,
+  onScheduleStep,
+  onRestructure,
+  stepDates,
+  resourceStatuses,
+  revealStepId,
+  currency,
+  locale,
   labels 
 }) => {
+  const graph = useMemo(() => {
+    const missing = new Set(Array.from(resourceStatuses).filter(([, status]) => isResourceMissing(status)).map(([name]) => name));
+    return buildPlanGraph(items, missing);
+  }, [items, resourceStatuses]);
+  const [focusedStepId, setFocusedStepId] = useState<string | null>(null);
+  const [autoEditId, setAutoEditId] = useState<string | null>(null);
+  const [focusRequestId, setFocusRequestId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<StepStructure['dropTarget']>(null);
+
+  // A new step opens in edit mode once, when it first mounts
+  useEffect(() => {
+    if (autoEditId) setAutoEditId(null);
+  }, [items]);
+
+  const groupedIds = useMemo(() => new Set(
+    items.flatMap(item => item.type === 'parallel' ? item.group.steps.map(s => s.id) : [])
+  ), [items]);
+
+  const addStep = (afterStepId: string | null) => {
+    const step = createManualStep(labels.newStep);
+    setAutoEditId(step.id);
+    onRestructure({ type: 'add', afterStepId, step });
+  };
+
+  const structure: StepStructure = {
+    onEdit: (edit) => {
+      if (edit.type !== 'delete' && edit.type !== 'add') setFocusRequestId(edit.stepId);
+      onRestructure(edit);
+    },
+    onAddAfter: addStep,
+    autoEditId,
+    focusRequestId,
+    onFocusHandled: () => setFocusRequestId(null),
+    revealId: revealStepId,
+    draggingId,
+    dropTarget,
+    onDragStart: (stepId) => setDraggingId(stepId),
+    onDragOver: (stepId, position) => {
+      if (dropTarget?.stepId !== stepId || dropTarget.position !== position) setDropTarget({ stepId, position });
+    },
+    onDrop: () => {
+      if (draggingId && dropTarget) {
+        onRestructure({ type: 'move', stepId: draggingId, targetId: dropTarget.stepId, position: dropTarget.position });
+      }
+      setDraggingId(null);
+      setDropTarget(null);
+    },
+    onDragEnd: () => {
+      setDraggingId(null);
+      setDropTarget(null);
+    },
+  };
+
+  const highlighted = new Set(focusedStepId ? graph.dependencies.get(focusedStepId) || [] : []);
+
+  // Badges are only worth showing when a step does not simply follow the layer before it
+  const getDependencyBadges = (step: Step, layerIndex: number): DependencyBadge[] => {
+    const deps = graph.dependencies.get(step.id) || [];
+    const previousLayer = layerIndex > 0 ? graph.layers[layerIndex - 1] : [];
+    const followsPrevious = deps.length === previousLayer.length && previousLayer.every(s => deps.includes(s.id));
+    if (followsPrevious) return [];
+
+    return deps.map(id => ({
+      number: graph.numbers.get(id)!,
+      done: !!graph.steps.find(s => s.id === id)?.isCompleted
+    }));
+  };
+
+  const renderRootStep = (step: Step, layerIndex: number, isParallel: boolean, isLast: boolean) => (
+    <RecursiveStep 
+      key={step.id} 
+      step={step} 
+      index={graph.numbers.get(step.id)! - 1}
+      depth={0}
+      onExpand={onExpandStep} 
+      onResource={onResourceClick} 
+      onComplete={onToggleComplete}
+      onEdit={onEditStep}
+      onRegenerate={onRegenerateStep}
+      onEstimate={onEstimateStep}
+      onSchedule={onScheduleStep}
+      stepDates={stepDates}
+      resourceStatuses={resourceStatuses}
+      formatCost={(amount) => formatMoney(amount, currency, locale)}
+      structure={structure}
+      labels={labels}
+      isLast={isLast}
+      isParallel={isParallel}
+      isInGroup={groupedIds.has(step.id)}
+      dependencies={getDependencyBadges(step, layerIndex)}
+      isReady={graph.readyIds.has(step.id)}
+      isWaitingOnResources={graph.waitingOnResources.has(step.id)}
+      isHighlighted={highlighted.has(step.id)}
+      onFocus={setFocusedStepId}
+    />
+  );
+
+  // Steps are laid out by dependency depth: everything in a layer can run at the same time
   return (
     <div className="relative">
-      {items.map((item, index) => {
-        const isLast = index === items.length - 1;
-
-        if (item.type === 'single') {
-          return (
-            <RecursiveStep 
-              key={item.step.id} 
-              step={item.step} 
-              index={index}
-              depth={0}
-              onExpand={onExpandStep} 
-              onResource={onResourceClick} 
-              onComplete={onToggleComplete}
-              onEdit={onEditStep}
-              onRegenerate={onRegenerateStep}
-              labels={labels}
-              isLast={isLast}
-            />
-          );
+      {graph.layers.map((layer, index) => {
+        const isLast = index === graph.layers.length - 1;
+
+        if (layer.length === 1) {
+          return renderRootStep(layer[0], index, false, isLast);
         }
 
-        if (item.type === 'parallel') {
-          return (
-            <div key={item.group.id} className="relative pb-8 last:pb-0">
-               {!isLast && (
-                 <div className="absolute top-0 left-4 w-0.5 h-full bg-slate-200 -z-10"></div>
-               )}
+        return (
+          <div key={layer[0].id} className="relative pb-8 last:pb-0">
+             {!isLast && (
+               <div className="absolute top-0 left-4 w-0.5 h-full bg-slate-200 -z-10"></div>
+             )}
 
-               <div className="flex items-start gap-4">
-                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-white border-2 border-slate-200 text-slate-400 flex items-center justify-center shadow-sm z-10">
-                    <Layers className="w-4 h-4" />
-                  </div>
+             <div className="flex items-start gap-4">
+                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-white border-2 border-slate-200 text-slate-400 flex items-center justify-center shadow-sm z-10">
+                  <Layers className="w-4 h-4" />
+                </div>
 
-                  <div className="flex-grow">
-                    <div className="mb-3 flex items-center gap-2">
-                       <span className="text-xs font-bold text-slate-400 uppercase tracking-wider bg-slate-100 px-2 py-0.5 rounded">{labels.simultaneous}</span>
-                       <div className="h-px bg-slate-200 flex-grow"></div>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {item.group.steps.map((pStep, pIndex) => (
-                        <RecursiveStep
-                          key={pStep.id}
-                          step={pStep}
-                          index={pIndex}
-                          depth={0}
-                          onExpand={onExpandStep}
-                          onResource={onResourceClick}
-                          onComplete={onToggleComplete}
-                          onEdit={onEditStep}
-                          onRegenerate={onRegenerateStep}
-                          labels={labels}
-                          isParallel={true}
-                          isLast={true} 
-                        />
-                      ))}
-                    </div>
+                <div className="flex-grow">
+                  <div className="mb-3 flex items-center gap-2">
+                     <span className="text-xs font-bold text-slate-400 uppercase tracking-wider bg-slate-100 px-2 py-0.5 rounded">{labels.simultaneous}</span>
+                     <div className="h-px bg-slate-200 flex-grow"></div>
                   </div>
-               </div>
-            </div>
-          );
-        }
-        return null;
+                  
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {layer.map(step => renderRootStep(step, index, true, true))}
+                  </div>
+                </div>
+             </div>
+          </div>
+        );
       })}
+
+      <div className="mt-6 space-y-2">
+        <button
+          onClick={() => addStep(null)}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" /> {labels.addStep}
+        </button>
+        <p className="text-[11px] text-slate-400">{labels.shortcutsHint}</p>
+      </div>
     </div>
   );
 };
@@ -1,13 +1,24 @@
 import React from 'react';
-import { Box } from './Icons';
+import { ResourceStatus } from '../types';
+import { isResourceMissing } from '../services/resourceInventory';
+import { resourceKey } from '../services/resourceRegistry';
+import { AlertCircle, Box, Check } from './Icons';
 
 interface StepRendererProps {
   text: string;
   onResourceClick: (resourceName: string) => void;
   className?: string;
+  resourceStatuses?: Map<string, ResourceStatus>; // Keyed by normalized name; colours the pills
+  resourceTitle?: string; // Tooltip on the pills
 }
 
-export const StepRenderer: React.FC<StepRendererProps> = ({ text, onResourceClick, className = "" }) => {
+const PILL_STYLES = {
+  unknown: 'bg-indigo-50 text-indigo-700 border-indigo-100 hover:bg-indigo-100 hover:border-indigo-200',
+  missing: 'bg-amber-50 text-amber-800 border-amber-200 hover:bg-amber-100 hover:border-amber-300',
+  available: 'bg-emerald-50 text-emerald-700 border-emerald-100 hover:bg-emerald-100 hover:border-emerald-200',
+};
+
+export const StepRenderer: React.FC<StepRendererProps> = ({ text, onResourceClick, className = "", resourceStatuses, resourceTitle }) => {
   // Regex to match [Resource Name]
   const parts = text.split(/(\[[^\]]+\])/g);
 
@@ -16,6 +27,8 @@ export const StepRenderer: React.FC<StepRendererProps> = ({ text, onResourceClic
       {parts.map((part, index) => {
         if (part.startsWith('[') && part.endsWith(']')) {
           const resourceName = part.slice(1, -1);
+          const status = resourceStatuses?.get(resourceKey(resourceName));
+          const availability = !status ? 'unknown' : isResourceMissing(status) ? 'missing' : 'available';
           return (
             <button
               key={index}
@@ -23,10 +36,16 @@ export const StepRenderer: React.FC<StepRendererProps> = ({ text, onResourceClic
                 e.stopPropagation();
                 onResourceClick(resourceName);
               }}
-              className="group/res inline-flex items-center gap-1 mx-1 px-2 py-0.5 rounded-md bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 hover:border-indigo-200 transition-all text-sm font-medium cursor-pointer align-baseline transform hover:scale-105 hover:shadow-sm"
-              title="View acquisition plan"
+              className={`group/res inline-flex items-center gap-1 mx-1 px-2 py-0.5 rounded-md border ${PILL_STYLES[availability]} transition-all text-sm font-medium cursor-pointer align-baseline transform hover:scale-105 hover:shadow-sm`}
+              title={resourceTitle}
             >
-              <Box className="w-3 h-3 opacity-50 group-hover/res:opacity-100 transition-opacity" />
+              {availability === 'missing' ? (
+                <AlertCircle className="w-3 h-3 text-amber-500" />
+              ) : availability === 'available' ? (
+                <Check className="w-3 h-3 text-emerald-500" />
+              ) : (
+                <Box className="w-3 h-3 opacity-50 group-hover/res:opacity-100 transition-opacity" />
+              )}
               {resourceName}
             </button>
           );
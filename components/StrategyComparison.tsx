@@ -0,0 +1,156 @@
+import React from 'react';
+import { Budget, Resource, RiskLevel, Strategy } from '../types';
+import { getRootSteps } from '../services/planGraph';
+import { formatAmount } from '../services/planSchedule';
+import { formatMoney, isOverBudget } from '../services/planBudget';
+import { getSharedResourceKeys, getStrategyMetrics, isSharedResource } from '../services/strategyMetrics';
+import { StepRenderer } from './StepRenderer';
+import { ArrowLeft, ArrowRight, Box, Loader2 } from './Icons';
+
+interface StrategyComparisonProps {
+  strategies: Strategy[];
+  resources: Resource[]; // Priced resources count toward each plan's cost
+  budget: Budget;
+  locale: string;
+  onChoose: (strategyId: string) => void;
+  onBack: () => void;
+  labels: {
+    title: string;
+    subtitle: string;
+    back: string;
+    choose: string;
+    generating: string;
+    unavailable: string;
+    steps: string;
+    duration: string;
+    effort: string;
+    cost: string;
+    overBudget: string;
+    resources: string;
+    shared: string;
+    risk: string;
+    riskLevels: Record<RiskLevel, string>;
+    daysShort: string;
+    hoursShort: string;
+  }
+}
+
+const RISK_CLASSES: Record<RiskLevel, string> = {
+  low: 'bg-green-50 text-green-700 border-green-100',
+  medium: 'bg-amber-50 text-amber-700 border-amber-100',
+  high: 'bg-red-50 text-red-700 border-red-100',
+};
+
+export const StrategyComparison: React.FC<StrategyComparisonProps> = ({ strategies, resources, budget, locale, onChoose, onBack, labels }) => {
+  const metrics = strategies.map(strategy => getStrategyMetrics(strategy, resources));
+  const shared = getSharedResourceKeys(metrics);
+
+  return (
+    <div className="max-w-7xl mx-auto pt-8 space-y-8 animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <button 
+          onClick={onBack}
+          className="flex items-center gap-2 text-slate-500 hover:text-indigo-600 transition-colors font-medium text-sm px-4 py-2 rounded-full hover:bg-white border border-transparent hover:border-slate-200"
+        >
+          <ArrowLeft className="w-4 h-4" /> {labels.back}
+        </button>
+        <div className="text-right">
+          <h2 className="text-3xl font-bold text-slate-900">{labels.title}</h2>
+          <p className="text-slate-600">{labels.subtitle}</p>
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-6 ${strategies.length === 3 ? 'lg:grid-cols-3' : 'lg:grid-cols-2'}`}>
+        {strategies.map((strategy, idx) => {
+          const m = metrics[idx];
+
+          return (
+            <div key={strategy.id} className="bg-white rounded-2xl border border-slate-200 shadow-sm flex flex-col overflow-hidden">
+              <div className="p-6 border-b border-slate-100 bg-slate-50/30 space-y-3">
+                <h3 className="text-xl font-bold text-slate-900 leading-tight">{strategy.title}</h3>
+                <p className="text-sm text-slate-600 leading-relaxed">{strategy.description}</p>
+                {strategy.risk && (
+                  <div className="flex items-start gap-2 text-xs">
+                    <span className={`flex-shrink-0 px-2 py-0.5 rounded-full border font-semibold ${RISK_CLASSES[strategy.risk.level]}`}>
+                      {labels.risk}: {labels.riskLevels[strategy.risk.level]}
+                    </span>
+                    <span className="text-slate-500 leading-relaxed">{strategy.risk.reason}</span>
+                  </div>
+                )}
+              </div>
+
+              {strategy.planLoading ? (
+                <div className="flex-grow flex flex-col items-center justify-center py-16 text-slate-400 gap-3">
+                  <Loader2 className="w-6 h-6 animate-spin text-indigo-500" />
+                  <span className="text-sm">{labels.generating}</span>
+                </div>
+              ) : !m ? (
+                <div className="flex-grow flex items-center justify-center py-16 px-6 text-center text-sm text-slate-400">
+                  {labels.unavailable}
+                </div>
+              ) : (
+                <div className="flex-grow p-6 space-y-6">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                    <div className="p-3 rounded-xl bg-slate-50">
+                      <div className="text-lg font-bold text-slate-800">{m.stepCount}</div>
+                      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.steps}</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-slate-50">
+                      <div className="text-lg font-bold text-slate-800">{m.totalDays > 0 ? `${formatAmount(m.totalDays)}${labels.daysShort}` : '—'}</div>
+                      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.duration}</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-slate-50">
+                      <div className="text-lg font-bold text-slate-800">{m.totalEffortHours > 0 ? `${formatAmount(m.totalEffortHours)}${labels.hoursShort}` : '—'}</div>
+                      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.effort}</div>
+                    </div>
+                    <div className={`p-3 rounded-xl ${isOverBudget(m.totalCost, budget) ? 'bg-red-50' : 'bg-slate-50'}`} title={isOverBudget(m.totalCost, budget) ? labels.overBudget : undefined}>
+                      <div className={`text-lg font-bold ${isOverBudget(m.totalCost, budget) ? 'text-red-600' : 'text-slate-800'}`}>{m.totalCost !== undefined ? formatMoney(m.totalCost, budget.currency, locale) : '—'}</div>
+                      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">{labels.cost}</div>
+                    </div>
+                  </div>
+
+                  <ol className="space-y-2 text-sm text-slate-700">
+                    {getRootSteps(strategy.plan || []).map((step, sIdx) => (
+                      <li key={step.id} className="flex gap-2 leading-relaxed">
+                        <span className="flex-shrink-0 w-5 h-5 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center text-[10px] font-bold">{sIdx + 1}</span>
+                        <StepRenderer text={step.instruction} onResourceClick={() => {}} />
+                      </li>
+                    ))}
+                  </ol>
+
+                  {m.resourceNames.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider">
+                        {labels.resources} ({m.resourceNames.length}) · {m.resourceNames.filter(n => isSharedResource(n, shared)).length} {labels.shared}
+                      </div>
+                      <div className="flex flex-wrap gap-1.5">
+                        {m.resourceNames.map(name => (
+                          <span
+                            key={name}
+                            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium border ${isSharedResource(name, shared) ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-slate-50 text-slate-500 border-slate-100'}`}
+                          >
+                            <Box className="w-3 h-3 opacity-50" /> {name}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="p-6 bg-slate-50/50 border-t border-slate-100">
+                <button
+                  onClick={() => onChoose(strategy.id)}
+                  disabled={!m}
+                  className="w-full py-3 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl text-sm hover:bg-indigo-600 hover:text-white hover:border-transparent disabled:opacity-50 disabled:hover:bg-white disabled:hover:text-slate-700 transition-all flex items-center justify-center gap-2 shadow-sm"
+                >
+                  {labels.choose} <ArrowRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  clearTelemetry, DEFAULT_PRICES, loadPriceTable, loadTelemetry, PriceTable, savePriceTable, SESSION_ID,
+  subscribeTelemetry, summarizeByTask, summarizeTelemetry, TelemetryRecord, TelemetrySummary
+} from '../services/telemetry';
+import { clearResponseCache } from '../services/llm';
+import { PluralMessage, pluralize } from '../translations';
+import { Activity, RotateCcw, Trash2, X } from './Icons';
+
+interface TelemetryPanelProps {
+  goalId: string | null;
+  locale: string;
+  onClose: () => void;
+  labels: {
+    title: string;
+    session: string;
+    goal: string;
+    noGoal: string;
+    calls: PluralMessage;
+    failures: string;
+    promptTokens: string;
+    responseTokens: string;
+    latency: string;
+    cacheHits: string;
+    cached: string;
+    cost: string;
+    unpriced: PluralMessage;
+    estimated: string;
+    byFunction: string;
+    recent: string;
+    empty: string;
+    prices: string;
+    pricesHint: string;
+    model: string;
+    inputPrice: string;
+    outputPrice: string;
+    resetPrices: string;
+    clear: string;
+    cache: string;
+    cacheHint: string;
+    clearCache: string;
+    cacheCleared: string;
+  }
+}
+
+const RECENT_LIMIT = 20;
+
+/**
+ * Developer view of model usage: totals for this browser session and the open goal, a
+ * breakdown per service function and the latest calls. Costs come from the price table
+ * at the bottom, which can be edited to match the provider's current rates.
+ */
+export const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ goalId, locale, onClose, labels }) => {
+  const [records, setRecords] = useState<TelemetryRecord[]>(loadTelemetry);
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  useEffect(() => subscribeTelemetry(() => setRecords(loadTelemetry())), []);
+
+  const sessionRecords = useMemo(() => records.filter(r => r.sessionId === SESSION_ID), [records]);
+  const goalRecords = useMemo(() => goalId ? records.filter(r => r.goalId === goalId) : [], [records, goalId]);
+  const byTask = useMemo(() => summarizeByTask(sessionRecords, prices), [sessionRecords, prices]);
+  const recent = useMemo(() => records.slice(-RECENT_LIMIT).reverse(), [records]);
+  const models = useMemo(
+    () => Array.from(new Set([...Object.keys(prices), ...records.map(r => r.model)])),
+    [prices, records]
+  );
+
+  const number = (value: number) => new Intl.NumberFormat(locale).format(Math.round(value));
+  const percent = (value: number) => new Intl.NumberFormat(locale, { style: 'percent' }).format(value);
+  const usd = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'USD', maximumFractionDigits: 4 }).format(value);
+
+  const handlePriceChange = (model: string, field: 'input' | 'output', value: string) => {
+    const amount = Math.max(0, parseFloat(value) || 0);
+    const next = { ...prices, [model]: { ...(prices[model] || { input: 0, output: 0 }), [field]: amount } };
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  const handleResetPrices = () => {
+    setPrices({ ...DEFAULT_PRICES });
+    savePriceTable({});
+  };
+
+  const handleClearCache = () => {
+    clearResponseCache()
+      .then(() => setCacheCleared(true))
+      .catch(err => console.warn('Response cache unavailable', err));
+  };
+
+  const renderSummary = (title: string, summary: TelemetrySummary | null) => (
+    <div className="p-4 rounded-xl border border-slate-100 bg-slate-50/50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-500">{title}</span>
+        {summary && <span className="text-xs text-slate-400">{pluralize(labels.calls, summary.calls, locale)}</span>}
+      </div>
+      {summary ? (
+        <>
+          <div>
+            <div className="text-2xl font-bold text-slate-900">{usd(summary.cost)}</div>
+            <div className="text-[11px] text-slate-400">{labels.cost}</div>
+          </div>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            <dt className="text-slate-500">{labels.promptTokens}</dt>
+            <dd className="text-right font-mono text-slate-700">{number(summary.promptTokens)}</dd>
+            <dt className="text-slate-500">{labels.responseTokens}</dt>
+            <dd className="text-right font-mono text-slate-700">{number(summary.responseTokens)}</dd>
+            <dt className="text-slate-500">{labels.latency}</dt>
+            <dd className="text-right font-mono text-slate-700">{number(summary.averageLatencyMs)} ms</dd>
+            <dt className="text-slate-500">{labels.cacheHits}</dt>
+            <dd className="text-right font-mono text-slate-700">
+              {summary.cacheHits}{summary.calls > 0 && ` (${percent(summary.cacheHits / summary.calls)})`}
+            </dd>
+            <dt className="text-slate-500">{labels.failures}</dt>
+            <dd className={`text-right font-mono ${summary.failures > 0 ? 'text-red-600' : 'text-slate-700'}`}>{summary.failures}</dd>
+          </dl>
+          {summary.unpriced > 0 && (
+            <p className="text-[11px] text-amber-600">{pluralize(labels.unpriced, summary.unpriced, locale)}</p>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-slate-400">{labels.noGoal}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/20 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-xl h-full bg-white shadow-2xl overflow-y-auto custom-scrollbar animate-in slide-in-from-right-8 fade-in duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="sticky top-0 z-10 bg-slate-50 p-4 border-b border-slate-100 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 font-bold text-slate-900">
+            <Activity className="w-4 h-4 text-indigo-500" /> {labels.title}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={clearTelemetry}
+              disabled={records.length === 0}
+              className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30"
+              title={labels.clear}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {renderSummary(labels.session, summarizeTelemetry(sessionRecords, prices))}
+            {renderSummary(labels.goal, goalId ? summarizeTelemetry(goalRecords, prices) : null)}
+          </div>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{labels.byFunction}</h3>
+            {byTask.length === 0 ? (
+              <p className="py-4 text-center text-sm text-slate-400">{labels.empty}</p>
+            ) : (
+              <table className="w-full text-xs">
+                <tbody>
+                  {byTask.map(({ task, summary }) => (
+                    <tr key={task} className="border-b border-slate-50">
+                      <td className="py-1.5 font-mono text-slate-700">{task}</td>
+                      <td className="py-1.5 text-right text-slate-500">{pluralize(labels.calls, summary.calls, locale)}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-500">{number(summary.promptTokens)} / {number(summary.responseTokens)}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-700">{usd(summary.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {recent.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{labels.recent}</h3>
+              <div className="space-y-1">
+                {recent.map(record => (
+                  <div key={record.id} className="flex items-center gap-2 text-xs">
+                    <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${record.ok ? 'bg-emerald-500' : 'bg-red-500'}`} />
+                    <span className="font-mono text-slate-700 truncate">{record.task}</span>
+                    {record.error && <span className="text-red-600">{record.error}</span>}
+                    {record.cached && <span className="text-emerald-600">{labels.cached}</span>}
+                    <span className="ml-auto font-mono text-slate-400 flex-shrink-0" title={record.estimated ? labels.estimated : undefined}>
+                      {record.estimated ? '~' : ''}{number(record.promptTokens + record.responseTokens)} · {number(record.latencyMs)} ms
+                    </span>
+                    <span className="text-[10px] text-slate-400 font-mono flex-shrink-0">
+                      {new Date(record.timestamp).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{labels.prices}</h3>
+              <button
+                onClick={handleResetPrices}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" /> {labels.resetPrices}
+              </button>
+            </div>
+            <p className="text-[11px] text-slate-400">{labels.pricesHint}</p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-400">
+                  <th className="py-1 text-left font-medium">{labels.model}</th>
+                  <th className="py-1 text-right font-medium">{labels.inputPrice}</th>
+                  <th className="py-1 text-right font-medium">{labels.outputPrice}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => (
+                  <tr key={model}>
+                    <td className="py-1 font-mono text-slate-700">{model}</td>
+                    {(['input', 'output'] as const).map(field => (
+                      <td key={field} className="py-1 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={prices[model]?.[field] ?? ''}
+                          placeholder="—"
+                          onChange={e => handlePriceChange(model, field, e.target.value)}
+                          className="w-20 px-2 py-1 rounded-md border border-slate-200 text-right font-mono focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{labels.cache}</h3>
+              <button
+                onClick={handleClearCache}
+                disabled={cacheCleared}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-600 transition-colors disabled:opacity-50 disabled:hover:text-slate-500"
+              >
+                <Trash2 className="w-3 h-3" /> {cacheCleared ? labels.cacheCleared : labels.clearCache}
+              </button>
+            </div>
+            <p className="text-[11px] text-slate-400">{labels.cacheHint}</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
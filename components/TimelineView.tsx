@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { PlanItem } from '../types';
+import { buildPlanSchedule, formatAmount } from '../services/planSchedule';
+import { StepRenderer } from './StepRenderer';
+import { Clock } from './Icons';
+
+interface TimelineViewProps {
+  items: PlanItem[];
+  onResourceClick: (resourceName: string) => void;
+  labels: {
+    viewResource: string;
+    totalDuration: string;
+    totalEffort: string;
+    criticalPath: string;
+    unestimated: string;
+    noEstimates: string;
+    daysShort: string;
+    hoursShort: string;
+  }
+}
+
+/**
+ * Gantt-style chart of the root steps. Bars start as soon as every dependency
+ * has finished; steps on the critical path are highlighted.
+ */
+export const TimelineView: React.FC<TimelineViewProps> = ({ items, onResourceClick, labels }) => {
+  const schedule = useMemo(() => buildPlanSchedule(items), [items]);
+
+  if (schedule.totalDays === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-slate-400 gap-3">
+        <Clock className="w-8 h-8 opacity-50" />
+        <p className="text-sm">{labels.noEstimates}</p>
+      </div>
+    );
+  }
+
+  const percent = (days: number) => `${(days / schedule.totalDays) * 100}%`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-700 font-semibold">
+          {labels.totalDuration}: {formatAmount(schedule.totalDays)}{labels.daysShort}
+        </span>
+        <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-700 font-semibold">
+          {labels.totalEffort}: {formatAmount(schedule.totalEffortHours)}{labels.hoursShort}
+        </span>
+        <span className="flex items-center gap-1.5 text-xs text-slate-500">
+          <span className="w-3 h-3 rounded-sm bg-rose-400"></span> {labels.criticalPath}
+        </span>
+        {schedule.unestimatedCount > 0 && (
+          <span className="text-xs text-amber-600">{schedule.unestimatedCount} {labels.unestimated}</span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {schedule.entries.map((entry, idx) => (
+          <div key={entry.step.id} className="grid grid-cols-12 gap-4 items-center">
+            <div className={`col-span-5 text-sm leading-snug truncate ${entry.step.isCompleted ? 'line-through text-slate-400' : 'text-slate-700'}`}>
+              <span className="font-bold text-slate-400 mr-2">{idx + 1}.</span>
+              <StepRenderer text={entry.step.instruction} onResourceClick={onResourceClick} resourceTitle={labels.viewResource} />
+            </div>
+            <div className="col-span-7 relative h-7 bg-slate-50 rounded-lg border border-slate-100">
+              <div
+                className={`absolute top-1 bottom-1 rounded-md min-w-[4px] flex items-center px-2 text-[11px] font-semibold text-white overflow-hidden whitespace-nowrap
+                  ${entry.isCritical ? 'bg-rose-400' : 'bg-indigo-400'} ${entry.step.isCompleted ? 'opacity-40' : ''}`}
+                style={{ left: percent(entry.startDay), width: percent(entry.durationDays) }}
+                title={`${formatAmount(entry.startDay)}${labels.daysShort} → ${formatAmount(entry.startDay + entry.durationDays)}${labels.daysShort}`}
+              >
+                {entry.durationDays > 0 && `${formatAmount(entry.durationDays)}${labels.daysShort}`}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
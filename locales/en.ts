@@ -0,0 +1,288 @@
+import type { LocaleDefinition } from "../translations";
+
+// The base locale: every key exists here, and every other locale falls back to it
+export const messages = {
+  appTitle: "Process Jinn",
+  newGoal: "New Goal",
+  inputTitle: "What do you want to achieve?",
+  inputSubtitle: "Define your goal and let AI break it down into reliable strategies and actionable steps.",
+  labelGoal: "Your Goal",
+  placeholderGoal: "e.g., I want to run a marathon in under 4 hours.",
+  labelSpecifics: "Specifics & Metrics",
+  labelEnvironment: "Context / Environment",
+  labelOptional: "(Optional)",
+  placeholderSpecifics: "e.g., In 6 months, training 4 days a week",
+  placeholderEnvironment: "e.g., Working from home, Limited budget, Enterprise environment",
+  btnGenerate: "Generate Strategies",
+  examplesLabel: "EXAMPLES",
+  examples: ["Build a website portfolio", "Learn Spanish", "Plan a Europe trip", "Start a vegetable garden"],
+  loadingPlan: "Generating detailed steps for this strategy...",
+  selectionTitle: "Choose your Path",
+  selectionSubtitle: {
+    one: "We found {count} reliable way to achieve your goal.",
+    other: "We found {count} reliable ways to achieve your goal."
+  },
+  btnViewPlan: "View Plan",
+  btnSelect: "Select Strategy",
+  headerSelected: "Selected Strategy",
+  headerRoadmap: "Execution Roadmap",
+  btnBack: "Back",
+  btnCopy: "Copy Plan",
+  btnSave: "Save as File",
+  copied: "Copied!",
+  headerResources: "Resource Details",
+  resourceTip: "Resources highlighted in",
+  resourceTip2: "Blue Pills",
+  resourceTip3: "are interactive. Click them to generate a specific acquisition plan.",
+  noResourceTitle: "No Resource Selected",
+  noResourceDesc: "Click on any [Resource] highlighted in the strategies to view its acquisition plan here.",
+  acquisitionPlan: "Acquisition Plan",
+  generating: "Generating...",
+  expand: "How to do this",
+  collapse: "Hide details",
+  simultaneous: "Simultaneous Actions",
+  errorGeneric: "Failed to generate content. Please check your connection or try again.",
+  errorNetwork: "Could not reach the AI service. Please check your connection and try again.",
+  errorRateLimit: "The AI service is receiving too many requests. Please wait a minute and try again.",
+  errorAuth: "The AI service rejected the API key. Please check your key configuration.",
+  errorServer: "The AI service is having problems right now. Please try again later.",
+  errorInvalidResponse: "The AI returned an unusable answer, even after several attempts to repair it. Please try again.",
+  errorRequest: "The AI service rejected the request. Check the model name and provider settings.",
+  
+  // New Actions
+  edit: "Edit Step",
+  regenerate: "Regenerate Step",
+  save: "Save",
+  cancel: "Cancel",
+  postEditTitle: "Step updated. What next?",
+  actionJustSave: "Just Save",
+  actionSubsteps: "Plan Sub-steps",
+  actionFuture: "Update Future Steps",
+  regenerating: "Regenerating...",
+  after: "After",
+  ready: "Ready",
+
+  // Estimates & Timeline
+  durationDays: "Duration (days)",
+  effortHours: "Effort (hours)",
+  daysShort: "d",
+  hoursShort: "h",
+  viewSteps: "Steps",
+  viewTimeline: "Timeline",
+  totalDuration: "Total duration",
+  totalEffort: "Total effort",
+  criticalPath: "Critical path",
+  unestimatedSteps: "steps without estimates",
+  noEstimates: "No time estimates yet. Edit a step to add its duration.",
+
+  // Calendar
+  labelStartDate: "Start date",
+  labelScheduledDate: "Start date (overrides schedule)",
+  estimatesFromSubSteps: "Duration, effort and cost add up from the sub-steps.",
+  btnExportCalendar: "Calendar (.ics)",
+
+  // Comparison
+  compareToggle: "Compare",
+  btnCompare: "Compare strategies",
+  compareTitle: "Compare Strategies",
+  compareSubtitle: "Plans side by side, before you commit.",
+  compareSteps: "Steps",
+  compareResources: "Resources",
+  compareShared: "shared",
+  compareRisk: "Risk",
+  riskLow: "Low",
+  riskMedium: "Medium",
+  riskHigh: "High",
+
+  // Strategy Count & Refinement
+  labelStrategyCount: "Strategies to generate",
+  btnMoreLikeThis: "More like this",
+  btnRefine: "Refine",
+  btnSomethingDifferent: "Something completely different",
+  placeholderRefine: "e.g., cheaper, no travel, faster",
+  btnApplyFeedback: "Regenerate",
+
+  // Saved Goals
+  btnLibrary: "My Goals",
+  libraryTitle: "My Goals",
+  librarySubtitle: "Every goal is saved automatically. Pick up where you left off.",
+  libraryEmpty: "No saved goals yet.",
+  btnOpen: "Open",
+  btnRename: "Rename",
+  btnDuplicate: "Duplicate",
+  btnDelete: "Delete",
+  confirmDelete: "Delete this goal and its plans? This cannot be undone.",
+  copySuffix: "(copy)",
+  lastUpdated: "Updated",
+  labelStrategies: "strategies",
+
+  // Import
+  btnImportPlan: "Import a saved plan (.md / .json)",
+  btnExportJson: "Export JSON",
+  btnImportJson: "Import JSON",
+  errorImport: "Could not read this file. Please choose a plan exported with \"Save as File\" or \"Export JSON\".",
+
+  // History
+  btnUndo: "Undo",
+  btnRedo: "Redo",
+  historyTitle: "History",
+  historyCurrent: "Current version",
+  historyEmpty: "No changes yet. Edits, regenerations and check-offs will show up here.",
+  changeEdit: "Edited step",
+  changeComplete: "Toggled completion",
+  changeRegenerate: "Regenerated step",
+  changeFuture: "Updated future steps",
+  changeExpand: "Broke step down",
+  changeEstimate: "Changed estimate",
+  changeSchedule: "Changed date",
+  changeResource: "Generated acquisition plan",
+  changePlan: "Regenerated plan",
+  changeRestore: "Restored version",
+  changeAdd: "Added step",
+  changeDelete: "Deleted step",
+  changeMove: "Moved step",
+  changeInventory: "Updated resource",
+  changeCheaper: "Made cheaper",
+  changeMerge: "Merged resource",
+  changeSplit: "Split resource",
+  changeTranslate: "Translated plan",
+
+  // Proposed Changes & Versions
+  proposalTitle: "Proposed future steps",
+  proposalSubtitle: "Review what would change after",
+  diffUnchanged: "Same",
+  diffReworded: "Reworded",
+  diffAdded: "Added",
+  diffRemoved: "Removed",
+  proposalAccept: "Accept",
+  proposalReject: "Reject",
+  labelVersionName: "Save as version",
+  btnApplyProposal: "Apply accepted changes",
+  btnDiscardProposal: "Discard",
+  versionAfterEdit: "After editing \"{step}\"",
+  versionOriginal: "Original plan",
+  versionUnnamed: "Untitled version",
+  versionsTitle: "Saved versions",
+  versionsEmpty: "Versions are saved each time you apply proposed future steps.",
+  btnRestoreVersion: "Restore",
+  labelSteps: "steps",
+
+  // Plan Editing
+  newStep: "New step",
+  btnAddStep: "Add step",
+  btnMoreActions: "More actions",
+  btnDragStep: "Drag to move",
+  actionAddBelow: "Add step below",
+  actionMoveUp: "Move up",
+  actionMoveDown: "Move down",
+  actionIndent: "Make sub-step of previous",
+  actionOutdent: "Move out of parent step",
+  actionRunParallel: "Run alongside previous step",
+  actionRunAlone: "Take out of parallel group",
+  actionDeleteStep: "Delete step",
+  confirmDeleteStep: "Delete this step? Its sub-steps are deleted with it.",
+  dropParallel: "Run in parallel",
+  shortcutsHint: "Select a step: Enter adds one below, F2 edits, Alt+↑/↓ moves, Alt+→/← indents or outdents, Alt+P toggles parallel, Delete removes. Drag the handle onto a step to nest it.",
+
+  // Progress
+  viewProgress: "Progress",
+  progressOverall: "Complete",
+  progressStrategies: "By strategy",
+  progressBurnDown: "Burn-down",
+  progressRemaining: "Remaining",
+  progressPlanned: "Planned",
+  progressNextActions: "Next actionable steps",
+  progressNoNextActions: "Nothing is ready to start. Everything left is waiting on another step or a missing resource.",
+  progressRecent: "Recently completed",
+  progressNoRecent: "Check off a step and it will show up here.",
+  labelCompletedAt: "Completed",
+
+  // Resource Inventory
+  labelResourceStatus: "Status",
+  statusOwned: "Already have",
+  statusToBuy: "Need to buy",
+  statusToLearn: "Need to learn",
+  statusAcquired: "Acquired",
+  labelQuantity: "Quantity",
+  labelCostEstimate: "Cost per unit",
+  labelNotes: "Notes",
+  waitingOnResources: "Missing resources",
+
+  // Budget
+  labelBudget: "Budget cap",
+  labelCurrency: "Currency",
+  placeholderBudget: "e.g. 500",
+  labelStepCost: "Cost",
+  budgetPlanCost: "Estimated cost",
+  budgetOver: "This plan is {amount} over your budget.",
+  budgetExceeded: "Over budget",
+  budgetMostExpensive: "Most expensive open steps and resources",
+  btnMakeCheaper: "Find cheaper",
+  btnReviewResource: "Review",
+  budgetRough: "Rough estimate until the plan is generated",
+  compareCost: "Cost",
+
+  // Resource Registry
+  labelAliases: "Also called",
+  btnSplitAlias: "Split into its own resource",
+  labelMergeWith: "Merge a duplicate into this…",
+  labelMergeSuggestions: "Possibly the same as",
+  labelUsedIn: "Used in",
+  resourceNotUsed: "Not used in the current plan.",
+
+  // Resources View
+  viewResources: "Resources",
+  resourcesEmpty: "No step in this plan names a resource yet.",
+  resourcesNoMatches: "No resources match these filters.",
+  filterNotAcquired: "Not yet acquired",
+  filterUpcoming: "Used in upcoming steps",
+  btnCopyList: "Copy list",
+  resourceUnassessed: "Not checked",
+
+  // Acquisition Trees
+  resourceCycle: "Loop: {path}. One of these has to be obtained another way first.",
+
+  // Internationalization
+  labelLanguage: "Language",
+  stepCount: { one: "{count} step", other: "{count} steps" },
+  acquisitionEmpty: "No specific steps found.",
+  resourcePillTitle: "View acquisition plan",
+
+  // Telemetry
+  telemetryTitle: "Model usage",
+  telemetrySession: "This session",
+  telemetryGoal: "This goal",
+  telemetryNoGoal: "No goal is open.",
+  telemetryCalls: { one: "{count} call", other: "{count} calls" },
+  telemetryFailures: "Failed calls",
+  telemetryPromptTokens: "Prompt tokens",
+  telemetryResponseTokens: "Response tokens",
+  telemetryLatency: "Average latency",
+  telemetryCacheHits: "Cache hits",
+  telemetryCached: "cached",
+  telemetryCost: "Estimated cost",
+  telemetryUnpriced: { one: "{count} call has no price for its model.", other: "{count} calls have no price for their model." },
+  telemetryEstimated: "Estimated from text length; the provider reported no token counts",
+  telemetryByFunction: "By function (this session)",
+  telemetryRecent: "Recent calls",
+  telemetryEmpty: "No model calls yet.",
+  telemetryPrices: "Prices",
+  telemetryPricesHint: "USD per million tokens. Edit them to match your provider's current rates.",
+  telemetryModel: "Model",
+  telemetryInputPrice: "Input",
+  telemetryOutputPrice: "Output",
+  telemetryResetPrices: "Reset",
+  telemetryClear: "Clear recorded calls",
+  telemetryCache: "Cached responses",
+  telemetryCacheHint: "Answers to identical requests are reused instead of calling the model again. Clear them to ask afresh.",
+  telemetryClearCache: "Clear cache",
+  telemetryCacheCleared: "Cleared"
+};
+
+export const en: LocaleDefinition = {
+  name: "English",
+  intlLocale: "en-US",
+  llmLanguage: "English",
+  currency: "USD",
+  messages,
+};
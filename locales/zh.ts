@@ -0,0 +1,282 @@
+import type { LocaleDefinition } from "../translations";
+
+export const zh: LocaleDefinition = {
+  name: "中文",
+  intlLocale: "zh-CN",
+  llmLanguage: "Simplified Chinese",
+  currency: "CNY",
+  messages: {
+    appTitle: "流程精灵",
+    newGoal: "新目标",
+    inputTitle: "您想要实现什么目标？",
+    inputSubtitle: "定义您的目标，让 AI 为您制定可靠的策略和可执行的步骤。",
+    labelGoal: "您的目标",
+    placeholderGoal: "例如：我想在4小时内跑完马拉松。",
+    labelSpecifics: "具体细节和指标",
+    labelEnvironment: "背景 / 环境",
+    labelOptional: "(可选)",
+    placeholderSpecifics: "例如：在6个月内，每周训练4天",
+    placeholderEnvironment: "例如：在家办公，预算有限，企业环境",
+    btnGenerate: "生成策略",
+    examplesLabel: "示例",
+    examples: ["建立个人作品集网站", "学习西班牙语", "计划欧洲旅行", "开始种植蔬菜"],
+    loadingPlan: "正在为此策略生成详细步骤...",
+    selectionTitle: "选择您的路径",
+    selectionSubtitle: { other: "我们为您找到了 {count} 种实现目标的可靠方法。" },
+    btnViewPlan: "查看计划",
+    btnSelect: "选择策略",
+    headerSelected: "已选策略",
+    headerRoadmap: "执行路线图",
+    btnBack: "返回",
+    btnCopy: "复制计划",
+    btnSave: "保存文件",
+    copied: "已复制！",
+    headerResources: "资源详情",
+    resourceTip: "高亮显示的",
+    resourceTip2: "蓝色胶囊",
+    resourceTip3: "是可交互的。点击它们可生成具体的获取计划。",
+    noResourceTitle: "未选择资源",
+    noResourceDesc: "点击策略中高亮的 [资源] 可在此处查看其获取计划。",
+    acquisitionPlan: "获取计划",
+    generating: "正在生成...",
+    expand: "如何执行",
+    collapse: "隐藏详情",
+    simultaneous: "同步行动",
+    errorGeneric: "生成内容失败，请检查您的网络连接或重试。",
+    errorNetwork: "无法连接到 AI 服务，请检查您的网络连接后重试。",
+    errorRateLimit: "AI 服务请求过多，请稍等一分钟后重试。",
+    errorAuth: "AI 服务拒绝了 API 密钥，请检查密钥配置。",
+    errorServer: "AI 服务暂时出现问题，请稍后重试。",
+    errorInvalidResponse: "AI 返回的内容无法使用，多次修复尝试后仍然失败，请重试。",
+    errorRequest: "AI 服务拒绝了该请求，请检查模型名称和服务配置。",
+
+    // New Actions
+    edit: "编辑步骤",
+    regenerate: "重新生成步骤",
+    save: "保存",
+    cancel: "取消",
+    postEditTitle: "步骤已更新。接下来？",
+    actionJustSave: "仅保存",
+    actionSubsteps: "规划子步骤",
+    actionFuture: "更新后续步骤",
+    regenerating: "重新生成中...",
+    after: "依赖",
+    ready: "可开始",
+
+    // Estimates & Timeline
+    durationDays: "工期（天）",
+    effortHours: "工作量（小时）",
+    daysShort: "天",
+    hoursShort: "小时",
+    viewSteps: "步骤",
+    viewTimeline: "时间线",
+    totalDuration: "总工期",
+    totalEffort: "总工作量",
+    criticalPath: "关键路径",
+    unestimatedSteps: "个步骤尚无估算",
+    noEstimates: "尚无时间估算。编辑步骤即可添加工期。",
+
+    // Calendar
+    labelStartDate: "开始日期",
+    labelScheduledDate: "开始日期（覆盖自动排期）",
+    estimatesFromSubSteps: "时长、工作量和费用由子步骤汇总得出。",
+    btnExportCalendar: "日历 (.ics)",
+
+    // Comparison
+    compareToggle: "加入对比",
+    btnCompare: "对比策略",
+    compareTitle: "对比策略",
+    compareSubtitle: "并排查看各个计划，再做决定。",
+    compareSteps: "步骤",
+    compareResources: "资源",
+    compareShared: "个共用",
+    compareRisk: "风险",
+    riskLow: "低",
+    riskMedium: "中",
+    riskHigh: "高",
+
+    // Strategy Count & Refinement
+    labelStrategyCount: "生成策略数量",
+    btnMoreLikeThis: "更多类似的",
+    btnRefine: "调整",
+    btnSomethingDifferent: "换一个完全不同的思路",
+    placeholderRefine: "例如：更便宜、无需出行、更快",
+    btnApplyFeedback: "重新生成",
+
+    // Saved Goals
+    btnLibrary: "我的目标",
+    libraryTitle: "我的目标",
+    librarySubtitle: "所有目标都会自动保存，随时继续之前的进度。",
+    libraryEmpty: "还没有保存的目标。",
+    btnOpen: "打开",
+    btnRename: "重命名",
+    btnDuplicate: "复制",
+    btnDelete: "删除",
+    confirmDelete: "确定删除此目标及其计划吗？此操作无法撤销。",
+    copySuffix: "(副本)",
+    lastUpdated: "更新于",
+    labelStrategies: "个策略",
+
+    // Import
+    btnImportPlan: "导入已保存的计划 (.md / .json)",
+    btnExportJson: "导出 JSON",
+    btnImportJson: "导入 JSON",
+    errorImport: "无法读取此文件。请选择通过“保存文件”或“导出 JSON”导出的计划。",
+
+    // History
+    btnUndo: "撤销",
+    btnRedo: "重做",
+    historyTitle: "历史记录",
+    historyCurrent: "当前版本",
+    historyEmpty: "暂无更改。编辑、重新生成和勾选完成都会显示在这里。",
+    changeEdit: "编辑了步骤",
+    changeComplete: "切换了完成状态",
+    changeRegenerate: "重新生成了步骤",
+    changeFuture: "更新了后续步骤",
+    changeExpand: "拆分了步骤",
+    changeEstimate: "修改了估算",
+    changeSchedule: "修改了日期",
+    changeResource: "生成了获取计划",
+    changePlan: "重新生成了计划",
+    changeRestore: "恢复了版本",
+    changeAdd: "添加了步骤",
+    changeDelete: "删除了步骤",
+    changeMove: "移动了步骤",
+    changeInventory: "更新了资源",
+    changeCheaper: "降低了成本",
+    changeMerge: "合并了资源",
+    changeSplit: "拆分了资源",
+    changeTranslate: "翻译了计划",
+
+    // Proposed Changes & Versions
+    proposalTitle: "建议的后续步骤",
+    proposalSubtitle: "查看以下步骤之后将发生的变化：",
+    diffUnchanged: "相同",
+    diffReworded: "改写",
+    diffAdded: "新增",
+    diffRemoved: "删除",
+    proposalAccept: "接受",
+    proposalReject: "拒绝",
+    labelVersionName: "保存为版本",
+    btnApplyProposal: "应用已接受的更改",
+    btnDiscardProposal: "放弃",
+    versionAfterEdit: "编辑“{step}”之后",
+    versionOriginal: "原始计划",
+    versionUnnamed: "未命名版本",
+    versionsTitle: "已保存的版本",
+    versionsEmpty: "每次应用建议的后续步骤时都会保存一个版本。",
+    btnRestoreVersion: "恢复",
+    labelSteps: "个步骤",
+
+    // Plan Editing
+    newStep: "新步骤",
+    btnAddStep: "添加步骤",
+    btnMoreActions: "更多操作",
+    btnDragStep: "拖动以移动",
+    actionAddBelow: "在下方添加步骤",
+    actionMoveUp: "上移",
+    actionMoveDown: "下移",
+    actionIndent: "设为上一步的子步骤",
+    actionOutdent: "移出父步骤",
+    actionRunParallel: "与上一步同时进行",
+    actionRunAlone: "移出并行组",
+    actionDeleteStep: "删除步骤",
+    confirmDeleteStep: "删除此步骤？其子步骤也会一并删除。",
+    dropParallel: "同时进行",
+    shortcutsHint: "选中一个步骤：Enter 在下方添加，F2 编辑，Alt+↑/↓ 移动，Alt+→/← 缩进或取消缩进，Alt+P 切换并行，Delete 删除。将拖动手柄拖到某个步骤上即可嵌套。",
+
+    // Progress
+    viewProgress: "进度",
+    progressOverall: "已完成",
+    progressStrategies: "各策略进度",
+    progressBurnDown: "燃尽图",
+    progressRemaining: "剩余",
+    progressPlanned: "计划",
+    progressNextActions: "下一步可执行的步骤",
+    progressNoNextActions: "暂无可开始的步骤，剩余步骤都在等待其他步骤完成或缺少资源。",
+    progressRecent: "最近完成",
+    progressNoRecent: "勾选一个步骤后，它会显示在这里。",
+    labelCompletedAt: "完成于",
+
+    // Resource Inventory
+    labelResourceStatus: "状态",
+    statusOwned: "已拥有",
+    statusToBuy: "需购买",
+    statusToLearn: "需学习",
+    statusAcquired: "已获得",
+    labelQuantity: "数量",
+    labelCostEstimate: "单价",
+    labelNotes: "备注",
+    waitingOnResources: "缺少资源",
+
+    // Budget
+    labelBudget: "预算上限",
+    labelCurrency: "货币",
+    placeholderBudget: "例如 500",
+    labelStepCost: "费用",
+    budgetPlanCost: "预计花费",
+    budgetOver: "该计划超出预算 {amount}。",
+    budgetExceeded: "超出预算",
+    budgetMostExpensive: "花费最高的未完成步骤和资源",
+    btnMakeCheaper: "寻找更便宜的方案",
+    btnReviewResource: "查看",
+    budgetRough: "生成计划前的粗略估算",
+    compareCost: "花费",
+
+    // Resource Registry
+    labelAliases: "又称",
+    btnSplitAlias: "拆分为独立资源",
+    labelMergeWith: "将重复项合并到此资源…",
+    labelMergeSuggestions: "可能与以下资源相同",
+    labelUsedIn: "用于",
+    resourceNotUsed: "当前计划中未使用。",
+
+    // Resources View
+    viewResources: "资源",
+    resourcesEmpty: "此计划中还没有步骤提到资源。",
+    resourcesNoMatches: "没有符合筛选条件的资源。",
+    filterNotAcquired: "尚未获取",
+    filterUpcoming: "后续步骤需要",
+    btnCopyList: "复制清单",
+    resourceUnassessed: "未检查",
+
+    // Acquisition Trees
+    resourceCycle: "循环依赖：{path}。其中之一需要先通过其他方式获得。",
+
+    // Internationalization
+    labelLanguage: "语言",
+    stepCount: { other: "{count} 个步骤" },
+    acquisitionEmpty: "未找到具体步骤。",
+    resourcePillTitle: "查看获取计划",
+
+    // Telemetry
+    telemetryTitle: "模型用量",
+    telemetrySession: "本次会话",
+    telemetryGoal: "当前目标",
+    telemetryNoGoal: "没有打开的目标。",
+    telemetryCalls: { other: "{count} 次调用" },
+    telemetryFailures: "失败调用",
+    telemetryPromptTokens: "输入 Token",
+    telemetryResponseTokens: "输出 Token",
+    telemetryLatency: "平均延迟",
+    telemetryCacheHits: "缓存命中",
+    telemetryCached: "缓存",
+    telemetryCost: "预估费用",
+    telemetryUnpriced: { other: "{count} 次调用的模型没有设置价格。" },
+    telemetryEstimated: "按文本长度估算；提供方未返回 Token 数",
+    telemetryByFunction: "按函数（本次会话）",
+    telemetryRecent: "最近调用",
+    telemetryEmpty: "还没有模型调用。",
+    telemetryPrices: "价格",
+    telemetryPricesHint: "单位为每百万 Token 美元。可按提供方当前价格修改。",
+    telemetryModel: "模型",
+    telemetryInputPrice: "输入",
+    telemetryOutputPrice: "输出",
+    telemetryResetPrices: "重置",
+    telemetryClear: "清除调用记录",
+    telemetryCache: "缓存的回复",
+    telemetryCacheHint: "相同的请求会直接复用之前的回复，而不再调用模型。清除后将重新请求。",
+    telemetryClearCache: "清除缓存",
+    telemetryCacheCleared: "已清除"
+  },
+};
@@ -1,62 +1,454 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Step, Strategy, PlanItem, Language } from "../types";
+import { Step, Strategy, PlanItem, Language, ResourceStatus, Budget, Resource, TranslationEntry } from "../types";
+import { getLocale } from "../translations";
+import {
+  createJSONArrayStreamParser, estimateUsage, getLLMProvider, getResponseCacheKey, isAbortError, isRetryableError, LLMError,
+  LLMRequest, LLMResponse, LLMUsage, readCachedResponse, SchemaNode, shareInFlight, toLLMError, validateAgainstSchema,
+  writeCachedResponse
+} from "./llm";
+import { applyPlanTranslation, buildPlanTranslation, getPlanTexts, PlanTranslation, recallTranslation, rememberTranslations } from "./planTranslation";
+import { cleanResourceName } from "./resourceRegistry";
+import { recordLLMCall } from "./telemetry";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const MODEL_NAME = 'gemini-3-flash-preview';
+export interface GenerationOptions {
+  signal?: AbortSignal; // Cancels the request, e.g. when the user navigates away
+  bypassCache?: boolean; // Asks the model again even if an answer is cached, e.g. for "regenerate"
+}
+
+export interface StreamingOptions<T> extends GenerationOptions {
+  onPartial?: (items: T[]) => void; // Called with everything received so far, in order
+}
+
+interface ValidatedRequest extends LLMRequest {
+  validate?: (value: any) => string[]; // Checks the schema alone can't express
+  bypassCache?: boolean; // The fresh answer replaces the cached one
+}
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000;
+const MAX_ECHOED_RESPONSE = 4000; // Characters of a rejected response quoted back in a repair prompt
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Streams one attempt and returns the raw text with its token usage, estimated when the provider
+ * reports none. Array elements that are complete and match the item schema are reported as
+ * they arrive; reporting stops at the first one that doesn't.
+ */
+const streamText = async (
+  request: LLMRequest,
+  onElement?: (element: any, index: number) => void
+): Promise<LLMResponse> => {
+  const itemSchema = request.schema.type === 'array' ? request.schema.items : null;
+  let parser = onElement && itemSchema ? createJSONArrayStreamParser() : null;
+  const stream = getLLMProvider().streamJSON(request);
+  let received = 0;
+
+  while (true) {
+    const chunk = await stream.next();
+    request.signal?.throwIfAborted();
+    // A string is the next delta; the generator's return value is the full response
+    if (typeof chunk.value !== 'string') {
+      const { text, usage } = chunk.value;
+      return { text, usage: usage ?? estimateUsage(request, text) };
+    }
+    if (!parser) continue;
+
+    try {
+      for (const element of parser.push(chunk.value)) {
+        if (validateAgainstSchema(element, itemSchema!).length > 0) throw new Error('Invalid element');
+        onElement!(element, received++);
+      }
+    } catch {
+      parser = null; // Leave the rest to validation and repair
+    }
+  }
+};
+
+const buildRepairPrompt = (prompt: string, rejected: string, errors: string[]) => `
+    ${prompt}
+
+    Your previous response was rejected:
+    ${rejected.slice(0, MAX_ECHOED_RESPONSE)}
+
+    Problems found:
+    ${errors.map(e => `- ${e}`).join('\n    ')}
+
+    Return a corrected response that fixes every problem above.
+  `;
+
+// Records one attempt for the developer panel; failed calls count their time but no tokens
+const trackCall = (task: string, startedAt: number, usage?: LLMUsage, error?: unknown) => {
+  const { name, model } = getLLMProvider();
+  recordLLMCall({
+    task,
+    provider: name,
+    model,
+    promptTokens: usage?.promptTokens ?? 0,
+    responseTokens: usage?.responseTokens ?? 0,
+    estimated: usage?.estimated,
+    latencyMs: Date.now() - startedAt,
+    ok: error === undefined,
+    error: error === undefined ? undefined : isAbortError(error) ? 'aborted' : error instanceof LLMError ? error.kind : 'unknown',
+  });
+};
+
+// An answer served from the response cache still counts as a call, with no tokens spent
+const trackCacheHit = (task: string, startedAt: number) => {
+  const { name, model } = getLLMProvider();
+  recordLLMCall({ task, provider: name, model, promptTokens: 0, responseTokens: 0, latencyMs: Date.now() - startedAt, ok: true, cached: true });
+};
+
+// Parses a response and runs the schema and any extra checks on it
+const checkResponse = (text: string, { schema, validate }: ValidatedRequest, fallback: string): { value: any; errors: string[] } => {
+  try {
+    const value = JSON.parse(text || fallback);
+    const errors = validateAgainstSchema(value, schema);
+    return { value, errors: errors.length === 0 && validate ? validate(value) : errors };
+  } catch (err) {
+    return { value: undefined, errors: [`Response is not valid JSON: ${(err as Error).message}`] };
+  }
+};
 
 /**
- * Generates 3 strategies (Titles & Descriptions only) for speed optimization.
+ * Streams a request through the active LLM provider and returns the first response that
+ * passes validation. A response that fails is sent back to the model together with the
+ * problems found; network, rate-limit and server errors are retried with backoff.
+ */
+const requestValidText = async (
+  { validate, bypassCache, ...request }: ValidatedRequest,
+  fallback: string,
+  onElement?: (element: any, index: number) => void
+): Promise<string> => {
+  let prompt = request.prompt;
+  let lastError: LLMError | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    // Repairs go out immediately; only transport failures wait
+    if (lastError && lastError.kind !== 'invalid_response') {
+      await sleep(BACKOFF_BASE_MS * 2 ** (attempt - 1), request.signal);
+    }
+
+    const startedAt = Date.now();
+    let text: string;
+    let usage: LLMUsage | undefined;
+    try {
+      ({ text, usage } = await streamText({ ...request, prompt }, onElement));
+    } catch (err) {
+      const error = toLLMError(err);
+      trackCall(request.task, startedAt, undefined, error);
+      if (!(error instanceof LLMError) || !isRetryableError(error)) throw error;
+      lastError = error;
+      continue;
+    }
+
+    const { errors } = checkResponse(text, { ...request, validate }, fallback);
+    if (errors.length === 0) {
+      trackCall(request.task, startedAt, usage);
+      return text;
+    }
+
+    lastError = new LLMError('invalid_response', `${request.task} returned an invalid response`, errors);
+    trackCall(request.task, startedAt, usage, lastError);
+    prompt = buildRepairPrompt(request.prompt, text, errors);
+  }
+
+  throw lastError;
+};
+
+// Settles with the promise, or rejects as soon as the signal aborts
+const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Parsed, validated JSON for a request. Answers are cached (see services/llm/responseCache)
+ * and identical requests still in flight share one call; `bypassCache` skips both, so a
+ * regenerate always gets a fresh answer. A caller waiting on a shared call can still cancel.
+ * When `onElement` is given, each element of a top-level array is reported as soon as it is
+ * complete. A retry reports from index 0 again, and a cached or shared answer is reported all at once.
+ */
+const generateJSON = async (
+  request: ValidatedRequest,
+  fallback: string,
+  onElement?: (element: any, index: number) => void
+): Promise<any> => {
+  const key = getResponseCacheKey(request, getLLMProvider());
+  const replay = (value: any) => {
+    if (onElement && Array.isArray(value)) value.forEach((element, index) => onElement(element, index));
+    return value;
+  };
+
+  if (!request.bypassCache) {
+    const startedAt = Date.now();
+    const cached = await readCachedResponse(key);
+    request.signal?.throwIfAborted();
+    // An entry that no longer passes validation (e.g. after a schema change) is ignored
+    const hit = cached !== undefined ? checkResponse(cached, request, fallback) : null;
+    if (hit && hit.errors.length === 0) {
+      trackCacheHit(request.task, startedAt);
+      return replay(hit.value);
+    }
+  }
+
+  let joined = true;
+  const run = async () => {
+    joined = false;
+    const fresh = await requestValidText(request, fallback, onElement);
+    writeCachedResponse(key, fresh);
+    return fresh;
+  };
+  try {
+    const text = request.bypassCache ? await run() : await raceAbort(shareInFlight(key, run), request.signal);
+    const { value } = checkResponse(text, request, fallback);
+    return joined ? replay(value) : value;
+  } catch (err) {
+    // The shared call was cancelled by whoever started it, not by this caller
+    if (joined && isAbortError(err) && !request.signal?.aborted) return generateJSON({ ...request, bypassCache: true }, fallback, onElement);
+    throw err;
+  }
+};
+
+/**
+ * Structural checks for plan items that the schema can't express: a parallel item
+ * needs its parallel steps and a single item needs an instruction.
+ */
+const validatePlanItems = (items: any[]): string[] => items.flatMap((item, idx) => {
+  if (item.type === 'parallel') {
+    return Array.isArray(item.parallelSteps) && item.parallelSteps.length > 0
+      ? []
+      : [`$[${idx}]: "parallel" item must have at least one entry in "parallelSteps"`];
+  }
+  return typeof item.instruction === 'string' && item.instruction.trim()
+    ? []
+    : [`$[${idx}]: "single" item must have a non-empty "instruction"`];
+});
+
+const cleanAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+/**
+ * Keeps only sane, non-negative estimates from the model.
+ */
+const toEstimate = (raw: any): { durationDays?: number, effortHours?: number, costEstimate?: number } => ({
+  durationDays: cleanAmount(raw?.durationDays),
+  effortHours: cleanAmount(raw?.effortHours),
+  costEstimate: cleanAmount(raw?.costEstimate),
+});
+
+const describeBudget = (budget: Budget) =>
+  budget.cap !== undefined ? `At most ${budget.cap} ${budget.currency} in total` : `Not specified (give costs in ${budget.currency})`;
+
+// Bracketed resources are priced on their own, so a step's cost must leave them out
+const describeStepCost = (budget: Budget) =>
+  `"costEstimate": the money the step itself takes in ${budget.currency} (fees, services, consumables), not counting the [Resources] it names (0 if free)`;
+
+/**
+ * Turns the model's item-level "dependsOn" numbers into step-level id edges.
+ * Items without a usable list keep the implicit "after the previous item" ordering.
+ */
+const applyItemDependencies = (plan: PlanItem[], rawDependsOn: unknown[]): PlanItem[] => {
+  const stepIds = plan.map(item => item.type === 'single' ? [item.step.id] : item.group.steps.map(s => s.id));
+
+  return plan.map((item, idx): PlanItem => {
+    const raw = rawDependsOn[idx];
+    if (!Array.isArray(raw)) return item;
+
+    const dependsOn = raw
+      .filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= idx)
+      .flatMap(n => stepIds[n - 1]);
+
+    return item.type === 'single'
+      ? { ...item, step: { ...item.step, dependsOn } }
+      : { ...item, group: { ...item.group, steps: item.group.steps.map(s => ({ ...s, dependsOn })) } };
+  });
+};
+
+const STRATEGY_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    riskLevel: { type: 'string', enum: ["low", "medium", "high"] },
+    riskReason: { type: 'string' },
+    estimatedCost: { type: 'number' },
+  },
+  required: ["title", "description", "riskLevel", "riskReason"],
+};
+
+const toStrategy = (s: any, stratIdx: number): Strategy => ({
+  id: `strategy-${Date.now()}-${stratIdx}-${Math.random().toString(36).substr(2, 5)}`,
+  title: s.title,
+  description: s.description,
+  risk: ['low', 'medium', 'high'].includes(s.riskLevel) ? { level: s.riskLevel, reason: s.riskReason || '' } : undefined,
+  estimatedCost: cleanAmount(s.estimatedCost),
+  plan: [], // Empty initially for lazy loading
+  planLanguage: undefined
+});
+
+const describeStrategies = (strategies: Strategy[]) =>
+  strategies.map((s, idx) => `${idx + 1}. ${s.title}: ${s.description}`).join('\n');
+
+/**
+ * Generates strategies (Titles & Descriptions only) for speed optimization.
  */
 export const generateStrategies = async (
   goal: string,
   quantification: string,
   environment: string,
-  language: Language
+  budget: Budget,
+  language: Language,
+  count: number = 3,
+  { signal, bypassCache, onPartial }: StreamingOptions<Strategy> = {}
 ): Promise<Strategy[]> => {
-  const langName = language === 'zh' ? 'Simplified Chinese' : 'English';
+  const langName = getLocale(language).llmLanguage;
   
   const prompt = `
     User Goal: "${goal}"
     Quantification: "${quantification}"
     Context/Environment: "${environment}"
+    Budget: "${describeBudget(budget)}"
 
-    Task: Generate exactly 3 distinct, highly reliable, and realistic strategies (options) to achieve this goal, taking into account the user's specific context/environment if provided.
+    Task: Generate exactly ${count} distinct, highly reliable, and realistic strategies (options) to achieve this goal, taking into account the user's specific context/environment if provided.
     
     Requirements:
     1. Output in ${langName}.
     2. Provide ONLY the title and a persuasive description for each strategy.
-    3. DO NOT generate the detailed steps yet.
+    3. Rate each strategy's risk of failure as "low", "medium" or "high" and give a one-sentence reason.
+    4. Estimate "estimatedCost": roughly what the strategy costs in total, in ${budget.currency}. Every strategy must fit the budget if one is given.
+    5. DO NOT generate the detailed steps yet.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-          },
-          required: ["title", "description"],
-        },
-      },
-    },
+  const streamed: Strategy[] = [];
+  const rawStrategies = await generateJSON({
+    task: 'generateStrategies',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: { type: 'array', minItems: count, maxItems: count, items: STRATEGY_SCHEMA },
+    signal,
+    bypassCache,
+  }, "[]", (raw, idx) => {
+    streamed.splice(idx, Infinity, toStrategy(raw, idx)); // A retry starts over at index 0
+    onPartial?.([...streamed]);
   });
 
-  const rawStrategies = JSON.parse(response.text || "[]");
+  // Reuse the streamed strategies so their ids stay stable for the UI
+  return streamed.length === rawStrategies.length ? streamed : rawStrategies.map(toStrategy);
+};
 
-  return rawStrategies.map((s: any, stratIdx: number) => ({
-    id: `strategy-${Date.now()}-${stratIdx}`,
-    title: s.title,
-    description: s.description,
-    plan: [], // Empty initially for lazy loading
-    planLanguage: undefined
-  }));
+/**
+ * Generates additional strategies next to the existing ones: either variations of
+ * a reference strategy, or approaches unlike anything already on the list.
+ */
+export const generateAlternativeStrategies = async (
+  goal: string,
+  quantification: string,
+  environment: string,
+  budget: Budget,
+  existing: Strategy[],
+  mode: 'similar' | 'different',
+  reference: Strategy | null,
+  count: number,
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<Strategy[]> => {
+  const langName = getLocale(language).llmLanguage;
+
+  const direction = mode === 'similar' && reference
+    ? `Generate exactly ${count} new strategies that are close variations of "${reference.title}" (${reference.description}). Keep its core approach but vary the method, pace or tooling.`
+    : `Generate exactly ${count} new strategies that take a completely different approach from every strategy listed above. Do not reuse their core ideas.`;
+
+  const prompt = `
+    User Goal: "${goal}"
+    Quantification: "${quantification}"
+    Context/Environment: "${environment}"
+    Budget: "${describeBudget(budget)}"
+    Strategies already proposed:
+    ${describeStrategies(existing)}
+
+    Task: ${direction}
+
+    Requirements:
+    1. Output in ${langName}.
+    2. Provide ONLY the title and a persuasive description for each strategy.
+    3. Rate each strategy's risk of failure as "low", "medium" or "high" and give a one-sentence reason.
+    4. Estimate "estimatedCost": roughly what the strategy costs in total, in ${budget.currency}. Every strategy must fit the budget if one is given.
+    5. Do not repeat any strategy already proposed.
+  `;
+
+  const rawStrategies = await generateJSON({
+    task: 'generateAlternativeStrategies',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: { type: 'array', minItems: count, maxItems: count, items: STRATEGY_SCHEMA },
+    signal,
+    bypassCache,
+  }, "[]");
+
+  return rawStrategies.map(toStrategy);
+};
+
+/**
+ * Rewrites one strategy according to user feedback (e.g. "cheaper", "no travel").
+ * The result keeps the original id so it replaces the strategy in place.
+ */
+export const refineStrategy = async (
+  goal: string,
+  quantification: string,
+  environment: string,
+  budget: Budget,
+  strategy: Strategy,
+  feedback: string,
+  others: Strategy[],
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<Strategy> => {
+  const langName = getLocale(language).llmLanguage;
+
+  const prompt = `
+    User Goal: "${goal}"
+    Quantification: "${quantification}"
+    Context/Environment: "${environment}"
+    Budget: "${describeBudget(budget)}"
+    Current Strategy: "${strategy.title}": ${strategy.description}
+    Other strategies on the list (stay distinct from these):
+    ${describeStrategies(others)}
+    User Feedback: "${feedback}"
+
+    Task: Revise the current strategy so it satisfies the user's feedback while still achieving the goal.
+
+    Requirements:
+    1. Output in ${langName}.
+    2. Provide ONLY the title and a persuasive description.
+    3. Rate the revised strategy's risk of failure as "low", "medium" or "high" and give a one-sentence reason.
+    4. Estimate "estimatedCost": roughly what the strategy costs in total, in ${budget.currency}. It must fit the budget if one is given.
+  `;
+
+  const raw = await generateJSON({
+    task: 'refineStrategy',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: STRATEGY_SCHEMA,
+    signal,
+    bypassCache,
+  }, "{}");
+
+  return { ...toStrategy(raw, 0), id: strategy.id };
 };
 
 /**
@@ -65,14 +457,19 @@ export const generateStrategies = async (
 export const generateStrategyPlan = async (
   strategy: Strategy,
   goal: string,
+  quantification: string,
   environment: string,
-  language: Language
+  budget: Budget,
+  language: Language,
+  { signal, bypassCache, onPartial }: StreamingOptions<PlanItem> = {}
 ): Promise<PlanItem[]> => {
-  const langName = language === 'zh' ? 'Simplified Chinese' : 'English';
+  const langName = getLocale(language).llmLanguage;
 
   const prompt = `
     Goal: "${goal}"
+    Quantification: "${quantification}"
     Context/Environment: "${environment}"
+    Budget: "${describeBudget(budget)}"
     Selected Strategy: "${strategy.title}"
     Strategy Description: "${strategy.description}"
 
@@ -84,42 +481,12 @@ export const generateStrategyPlan = async (
     3. An item can be a "single" step OR a "parallel" group of steps.
     4. For each step instruction: wrap specific tools, software, or physical resources in square brackets like [Hammer] or [VS Code]. Keep resource names in ${langName} or English as appropriate.
     5. List extracted resources array for each step.
+    6. For each step, estimate "durationDays" (calendar days until it is done) and "effortHours" (hands-on hours of work). Fit them to the quantification/timeframe if one is given.
+    7. For each step, estimate ${describeStepCost(budget)}. Skip what the environment says the user already has. The whole plan, resources included, must fit the budget if one is given.
+    8. For each item, set "dependsOn" to the 1-based numbers of the EARLIER items it directly requires. Leave out items it does not need (e.g. item 4 may need items 2 and 3 but not item 1). The first item has an empty list.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            type: { type: Type.STRING, enum: ["single", "parallel"] },
-            instruction: { type: Type.STRING },
-            resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-            parallelSteps: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                   instruction: { type: Type.STRING },
-                   resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-                },
-                required: ["instruction", "resources"]
-              }
-            }
-          },
-        },
-      },
-    },
-  });
-
-  const rawPlan = JSON.parse(response.text || "[]");
-
-  return rawPlan.map((item: any, itemIdx: number) => {
+  const toPlanItem = (item: any, itemIdx: number): PlanItem => {
     const timestamp = Date.now();
     
     if (item.type === 'parallel' && item.parallelSteps) {
@@ -131,6 +498,7 @@ export const generateStrategyPlan = async (
             id: `step-${timestamp}-${itemIdx}-${pIdx}`,
             instruction: ps.instruction,
             resources: ps.resources || [],
+            ...toEstimate(ps),
             subSteps: [],
             isExpanded: false,
           }))
@@ -144,19 +512,72 @@ export const generateStrategyPlan = async (
         id: `step-${timestamp}-${itemIdx}`,
         instruction: item.instruction || "Do this step",
         resources: item.resources || [],
+        ...toEstimate(item),
         subSteps: [],
         isExpanded: false,
       }
     } as PlanItem;
+  };
+
+  const streamed: PlanItem[] = [];
+  const streamedDependsOn: unknown[] = [];
+  const rawPlan = await generateJSON({
+    task: 'generateStrategyPlan',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ["single", "parallel"] },
+          instruction: { type: 'string' },
+          resources: { type: 'array', items: { type: 'string' } },
+          durationDays: { type: 'number' },
+          effortHours: { type: 'number' },
+          costEstimate: { type: 'number' },
+          dependsOn: { type: 'array', items: { type: 'integer' } },
+          parallelSteps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                 instruction: { type: 'string' },
+                 resources: { type: 'array', items: { type: 'string' } },
+                 durationDays: { type: 'number' },
+                 effortHours: { type: 'number' },
+                 costEstimate: { type: 'number' },
+              },
+              required: ["instruction", "resources"]
+            }
+          }
+        },
+        required: ["type"],
+      },
+    },
+    validate: validatePlanItems,
+    signal,
+    bypassCache,
+  }, "[]", (item, itemIdx) => {
+    // A retry starts over at index 0
+    streamed.splice(itemIdx, Infinity, toPlanItem(item, itemIdx));
+    streamedDependsOn.splice(itemIdx, Infinity, item.dependsOn);
+    onPartial?.(applyItemDependencies(streamed, streamedDependsOn));
   });
+
+  // Reuse the streamed items so step ids match what was already rendered
+  const plan: PlanItem[] = streamed.length === rawPlan.length ? streamed : rawPlan.map(toPlanItem);
+  return applyItemDependencies(plan, rawPlan.map((item: any) => item.dependsOn));
 };
 
 export const expandStep = async (
   stepInstruction: string,
   context: string,
-  language: Language
+  budget: Budget,
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
 ): Promise<Step[]> => {
-  const langName = language === 'zh' ? 'Simplified Chinese' : 'English';
+  const langName = getLocale(language).llmLanguage;
 
   const prompt = `
     Context: "${context}"
@@ -167,39 +588,46 @@ export const expandStep = async (
     Requirements:
     1. Output in ${langName}.
     2. Identify and bracket [Resources] if new ones appear.
+    3. Estimate "durationDays", "effortHours" and ${describeStepCost(budget)} for each sub-step.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            instruction: { type: Type.STRING },
-            resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["instruction", "resources"],
+  const rawSteps = await generateJSON({
+    task: 'expandStep',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          instruction: { type: 'string' },
+          resources: { type: 'array', items: { type: 'string' } },
+          durationDays: { type: 'number' },
+          effortHours: { type: 'number' },
+          costEstimate: { type: 'number' },
         },
+        required: ["instruction", "resources"],
       },
     },
-  });
-
-  const rawSteps = JSON.parse(response.text || "[]");
+    signal,
+    bypassCache,
+  }, "[]");
 
   return rawSteps.map((st: any, idx: number) => ({
     id: `substep-${Date.now()}-${idx}`,
     instruction: st.instruction,
     resources: st.resources || [],
+    ...toEstimate(st),
   }));
 };
 
-export const generateResourcePlan = async (resourceName: string, language: Language): Promise<Step[]> => {
-  const langName = language === 'zh' ? 'Simplified Chinese' : 'English';
+export const generateResourcePlan = async (
+  resourceName: string,
+  budget: Budget,
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<Step[]> => {
+  const langName = getLocale(language).llmLanguage;
 
   const prompt = `
     Resource needed: "${resourceName}"
@@ -209,43 +637,137 @@ export const generateResourcePlan = async (resourceName: string, language: Langu
     Requirements:
     1. Output in ${langName}.
     2. Wrap any sub-resources in brackets [Like This] if necessary.
+    3. Estimate "costEstimate" for each step: the money it takes in ${budget.currency} to get one unit (0 if free).
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            instruction: { type: Type.STRING },
-            resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["instruction", "resources"],
+  const rawSteps = await generateJSON({
+    task: 'generateResourcePlan',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          instruction: { type: 'string' },
+          resources: { type: 'array', items: { type: 'string' } },
+          costEstimate: { type: 'number' },
         },
+        required: ["instruction", "resources"],
       },
     },
-  });
-
-  const rawSteps = JSON.parse(response.text || "[]");
+    signal,
+    bypassCache,
+  }, "[]");
 
   return rawSteps.map((st: any, idx: number) => ({
     id: `res-step-${Date.now()}-${idx}`,
     instruction: st.instruction,
     resources: st.resources || [],
+    costEstimate: cleanAmount(st.costEstimate),
   }));
 };
 
+/**
+ * Sorts resources into what the user already has and what they still need to buy or learn,
+ * judging from the goal and their environment. Names come back exactly as given.
+ */
+export const assessResources = async (
+  resourceNames: string[],
+  goal: string,
+  environment: string,
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<{ name: string; status: ResourceStatus; quantity?: number }[]> => {
+  const prompt = `
+    Goal: "${goal}"
+    User's environment / context: "${environment || 'Not specified'}"
+    Resources the plan mentions: ${JSON.stringify(resourceNames)}
+
+    Task: For each resource, judge from the environment whether the user most likely already has it ("owned"), still has to buy or obtain it ("to_buy"), or still has to learn it ("to_learn", for skills and knowledge). If the environment doesn't say, assume they don't have it yet.
+
+    Requirements:
+    1. Return one entry per resource, with "name" copied exactly from the list.
+    2. Include "quantity" when more than one is needed.
+  `;
+
+  const raw = await generateJSON({
+    task: 'assessResources',
+    prompt,
+    systemInstruction: 'You are a practical planning assistant. Keep every resource name exactly as given.',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          status: { type: 'string', enum: ['owned', 'to_buy', 'to_learn'] },
+          quantity: { type: 'number' },
+        },
+        required: ["name", "status"],
+      },
+    },
+    signal,
+    bypassCache,
+  }, "[]");
+
+  return raw.map((r: any) => ({
+    name: r.name,
+    status: r.status,
+    quantity: typeof r.quantity === 'number' && r.quantity > 0 ? r.quantity : undefined,
+  }));
+};
+
+/**
+ * Pairs new resource names with existing ones that mean the same thing, typically the same
+ * item named in another language ("锤子" and "Hammer"). Names without a counterpart are left out.
+ */
+export const matchResourceAliases = async (
+  newNames: string[],
+  existingNames: string[],
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<{ name: string; existing: string }[]> => {
+  const prompt = `
+    New resources: ${JSON.stringify(newNames)}
+    Existing resources: ${JSON.stringify(existingNames)}
+
+    Task: Find new resources that refer to the same thing as an existing resource, for example the same tool or skill named in another language or with a different spelling.
+
+    Requirements:
+    1. Only pair names that clearly mean the same thing; leave everything else out.
+    2. Copy both names exactly as given.
+  `;
+
+  const raw = await generateJSON({
+    task: 'matchResourceAliases',
+    prompt,
+    systemInstruction: 'You are a careful bilingual assistant. Keep every resource name exactly as given.',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          existing: { type: 'string' },
+        },
+        required: ["name", "existing"],
+      },
+    },
+    signal,
+    bypassCache,
+  }, "[]");
+
+  // Anything the model made up is dropped
+  return raw.filter((pair: any) => newNames.includes(pair.name) && existingNames.includes(pair.existing));
+};
+
 export const regenerateStepText = async (
   currentInstruction: string,
   context: string,
-  language: Language
-): Promise<{ instruction: string, resources: string[] }> => {
-  const langName = language === 'zh' ? 'Simplified Chinese' : 'English';
+  budget: Budget,
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<{ instruction: string, resources: string[], durationDays?: number, effortHours?: number, costEstimate?: number }> => {
+  const langName = getLocale(language).llmLanguage;
 
   const prompt = `
     Context: "${context}"
@@ -256,82 +778,154 @@ export const regenerateStepText = async (
     Requirements:
     1. Output in ${langName}.
     2. Bracket [Resources].
+    3. Estimate "durationDays", "effortHours" and ${describeStepCost(budget)} for the rewritten step.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          instruction: { type: Type.STRING },
-          resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-        },
-        required: ["instruction", "resources"],
+  const raw = await generateJSON({
+    task: 'regenerateStepText',
+    prompt,
+    schema: {
+      type: 'object',
+      properties: {
+        instruction: { type: 'string' },
+        resources: { type: 'array', items: { type: 'string' } },
+        durationDays: { type: 'number' },
+        effortHours: { type: 'number' },
+        costEstimate: { type: 'number' },
       },
+      required: ["instruction", "resources"],
     },
-  });
+    signal,
+    bypassCache,
+  }, "{}");
+
+  return { instruction: raw.instruction, resources: raw.resources || [], ...toEstimate(raw) };
+};
+
+/**
+ * Rewrites a step so it reaches the same result for less money, e.g. by renting, borrowing,
+ * buying second-hand or using a free alternative.
+ */
+export const regenerateCheaperStep = async (
+  currentInstruction: string,
+  currentCost: number,
+  context: string,
+  budget: Budget,
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<{ instruction: string, resources: string[], durationDays?: number, effortHours?: number, costEstimate?: number }> => {
+  const langName = getLocale(language).llmLanguage;
+
+  const prompt = `
+    Context: "${context}"
+    Budget: "${describeBudget(budget)}"
+    Current Instruction: "${currentInstruction}"
+    Current Cost: ${currentCost} ${budget.currency}
+
+    Task: The plan is over budget. Rewrite the current instruction so it achieves the same result for clearly less money, e.g. by renting, borrowing, buying second-hand or using a free alternative.
 
-  return JSON.parse(response.text || "{}");
+    Requirements:
+    1. Output in ${langName}.
+    2. Bracket [Resources].
+    3. Estimate ${describeStepCost(budget)}, lower than the current cost. Also estimate "durationDays" and "effortHours" for the rewritten step.
+  `;
+
+  const raw = await generateJSON({
+    task: 'regenerateCheaperStep',
+    prompt,
+    schema: {
+      type: 'object',
+      properties: {
+        instruction: { type: 'string' },
+        resources: { type: 'array', items: { type: 'string' } },
+        costEstimate: { type: 'number' },
+        durationDays: { type: 'number' },
+        effortHours: { type: 'number' },
+      },
+      required: ["instruction", "resources", "costEstimate"],
+    },
+    signal,
+    bypassCache,
+  }, "{}");
+
+  return { instruction: raw.instruction, resources: raw.resources || [], ...toEstimate(raw) };
 };
 
+/**
+ * Re-plans the steps after an edited one. `ancestors` is the chain of parent steps (outermost
+ * first) when the edited step is a sub-step; the new steps then finish the innermost parent
+ * rather than the whole goal, and are always single steps since sub-steps have no groups.
+ */
 export const regenerateFutureSteps = async (
   goal: string,
+  ancestors: string[],
   contextBefore: string[],
   currentStep: string,
   count: number,
-  language: Language
+  budget: Budget,
+  language: Language,
+  { signal, bypassCache }: GenerationOptions = {}
 ): Promise<PlanItem[]> => {
-  const langName = language === 'zh' ? 'Simplified Chinese' : 'English';
+  const langName = getLocale(language).llmLanguage;
+  const isNested = ancestors.length > 0;
+  const parentStep = ancestors[ancestors.length - 1];
 
   const prompt = `
     Goal: "${goal}"
+    Budget: "${describeBudget(budget)}"${isNested ? `
+    These steps break down: ${ancestors.map(a => `"${a}"`).join(' > ')}` : ''}
     History of steps already planned/completed: ${JSON.stringify(contextBefore)}
     The step that just changed/edited: "${currentStep}"
 
-    Task: Generate the remaining ${count} steps needed to complete the goal, starting AFTER "The step that just changed". The flow must adapt to the changed step.
+    Task: Generate the remaining ${count} steps needed to complete ${isNested ? `the step "${parentStep}"` : 'the goal'}, starting AFTER "The step that just changed". The flow must adapt to the changed step.
 
     Requirements:
     1. Output in ${langName}.
     2. Generate exactly ${count} items.
-    3. Items can be single or parallel.
+    3. ${isNested ? 'Every item must be "single".' : 'Items can be single or parallel.'}
     4. Bracket [Resources].
+    5. Estimate "durationDays", "effortHours" and ${describeStepCost(budget)} for each step.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            type: { type: Type.STRING, enum: ["single", "parallel"] },
-            instruction: { type: Type.STRING },
-            resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-            parallelSteps: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                   instruction: { type: Type.STRING },
-                   resources: { type: Type.ARRAY, items: { type: Type.STRING } },
-                },
-                required: ["instruction", "resources"]
-              }
+  const rawPlan = await generateJSON({
+    task: 'regenerateFutureSteps',
+    prompt,
+    systemInstruction: `You are a helpful expert planner. You MUST output your response in ${langName}, even if the input text is in a different language.`,
+    schema: {
+      type: 'array',
+      minItems: count,
+      maxItems: count,
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: isNested ? ["single"] : ["single", "parallel"] },
+          instruction: { type: 'string' },
+          resources: { type: 'array', items: { type: 'string' } },
+          durationDays: { type: 'number' },
+          effortHours: { type: 'number' },
+          costEstimate: { type: 'number' },
+          parallelSteps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                 instruction: { type: 'string' },
+                 resources: { type: 'array', items: { type: 'string' } },
+                 durationDays: { type: 'number' },
+                 effortHours: { type: 'number' },
+                 costEstimate: { type: 'number' },
+              },
+              required: ["instruction", "resources"]
             }
-          },
+          }
         },
+        required: ["type"],
       },
     },
-  });
-
-  const rawPlan = JSON.parse(response.text || "[]");
+    validate: validatePlanItems,
+    signal,
+    bypassCache,
+  }, "[]");
 
   return rawPlan.map((item: any, itemIdx: number) => {
     const timestamp = Date.now();
@@ -346,6 +940,7 @@ export const regenerateFutureSteps = async (
             id: `step-regen-${timestamp}-${uniqueId}-${itemIdx}-${pIdx}`,
             instruction: ps.instruction,
             resources: ps.resources || [],
+            ...toEstimate(ps),
             subSteps: [],
             isExpanded: false,
           }))
@@ -359,9 +954,75 @@ export const regenerateFutureSteps = async (
         id: `step-regen-${timestamp}-${uniqueId}-${itemIdx}`,
         instruction: item.instruction || "Do this step",
         resources: item.resources || [],
+        ...toEstimate(item),
         subSteps: [],
         isExpanded: false,
       }
     } as PlanItem;
   });
 };
+
+/**
+ * Translates a plan and its resources in place: same structure, same ids, new wording.
+ * Texts already in the translation memory (e.g. when switching back) are reused, so only
+ * the rest goes to the model; the returned memory includes the new translations, and the
+ * returned translation can be applied again to a plan edited while this one was running.
+ */
+export const translatePlan = async (
+  plan: PlanItem[],
+  resources: Resource[],
+  from: Language,
+  to: Language,
+  memory: TranslationEntry[],
+  { signal, bypassCache }: GenerationOptions = {}
+): Promise<{ plan: PlanItem[]; resources: Resource[]; memory: TranslationEntry[]; translation: PlanTranslation }> => {
+  const langName = getLocale(to).llmLanguage;
+  const texts = getPlanTexts(plan, resources);
+  const isNew = (text: string) => recallTranslation(memory, from, to, text) === undefined;
+  const pending = { names: texts.names.filter(isNew), instructions: texts.instructions.filter(isNew) };
+
+  // Names translated before, so brackets in new step texts use the registered translations
+  const glossary = Object.fromEntries(texts.names.filter(name => !isNew(name)).map(name => [name, recallTranslation(memory, from, to, name)]));
+
+  const fresh = new Map<string, string>();
+  if (pending.names.length > 0 || pending.instructions.length > 0) {
+    const prompt = `
+      Resource names: ${JSON.stringify(pending.names)}
+      Step texts: ${JSON.stringify(pending.instructions)}
+      ${Object.keys(glossary).length > 0 ? `Already translated resource names: ${JSON.stringify(glossary)}` : ''}
+
+      Task: Translate every resource name and every step text into ${langName}.
+
+      Requirements:
+      1. Return exactly one translation per input, in the same order.
+      2. Keep [square brackets] around resource names, and use the same translated name inside the brackets as in "names" or, for names already translated, exactly the translation given above.
+      3. Leave brand names, product names and units as they are normally written in ${langName}.
+    `;
+
+    const raw = await generateJSON({
+      task: 'translatePlan',
+      prompt,
+      systemInstruction: `You are a careful translator. You MUST output your response in ${langName}, keeping the meaning of every step unchanged.`,
+      schema: {
+        type: 'object',
+        properties: {
+          names: { type: 'array', items: { type: 'string' }, minItems: pending.names.length, maxItems: pending.names.length },
+          instructions: { type: 'array', items: { type: 'string' }, minItems: pending.instructions.length, maxItems: pending.instructions.length },
+        },
+        required: ["names", "instructions"],
+      },
+      signal,
+      bypassCache,
+    }, "{}");
+
+    pending.names.forEach((name, i) => fresh.set(name, cleanResourceName(raw.names[i]) || name));
+    pending.instructions.forEach((text, i) => fresh.set(text, raw.instructions[i].trim() || text));
+  }
+
+  const translation = buildPlanTranslation(texts, text => fresh.get(text) ?? recallTranslation(memory, from, to, text) ?? text);
+  return {
+    ...applyPlanTranslation(plan, resources, translation, to),
+    memory: rememberTranslations(memory, from, to, new Map([...translation.names, ...translation.instructions])),
+    translation,
+  };
+};
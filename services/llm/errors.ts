@@ -0,0 +1,57 @@
+/**
+ * What went wrong with a model call, coarse enough for the UI to explain it:
+ *   network          – the request never got a response
+ *   rate_limit       – the provider asked us to slow down (HTTP 429)
+ *   auth             – missing or rejected API key (HTTP 401/403)
+ *   server           – the provider failed on its side (HTTP 5xx)
+ *   request          – the provider refused the request itself (other HTTP 4xx), e.g. an unknown model
+ *   invalid_response – the model answered, but not with data we can use
+ */
+export type LLMErrorKind = 'network' | 'rate_limit' | 'auth' | 'server' | 'request' | 'invalid_response';
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  details: string[]; // e.g. validation errors of the last response
+
+  constructor(kind: LLMErrorKind, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.details = details;
+  }
+}
+
+// True for the rejection produced when a request's AbortSignal fires.
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+// Network hiccups, throttling and server errors are worth another try; a bad key or request is not.
+export const isRetryableError = (err: LLMError) => err.kind !== 'auth' && err.kind !== 'request';
+
+export const errorKindFromStatus = (status: number): LLMErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'request';
+  return 'invalid_response';
+};
+
+// How browsers and Node word the TypeError fetch rejects with when the request never got through
+const FETCH_FAILURE = /failed to fetch|fetch failed|networkerror|load failed|network request failed/i;
+
+/**
+ * Wraps what a provider threw into an LLMError. Abort errors pass through untouched so
+ * callers can still tell a cancelled request from a failed one, and so does anything that
+ * isn't a provider failure, such as a bug in our own code.
+ */
+export const toLLMError = (err: unknown): unknown => {
+  if (err instanceof LLMError) return err;
+  if (isAbortError(err)) return err;
+
+  const status = (err as { status?: unknown })?.status;
+  const message = err instanceof Error ? err.message : String(err);
+  if (typeof status === 'number') return new LLMError(errorKindFromStatus(status), message);
+  if (err instanceof SyntaxError) return new LLMError('invalid_response', message);
+  if (err instanceof TypeError && FETCH_FAILURE.test(message)) return new LLMError('network', message);
+  return err;
+};
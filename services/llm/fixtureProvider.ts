@@ -0,0 +1,71 @@
+import { LLMProvider, LLMRequest, LLMStream, SchemaNode } from "./types";
+import { estimateUsage } from "./usage";
+
+export interface FixtureOptions {
+  // Canned payloads keyed by task name. Functions receive the full request.
+  responses?: Record<string, unknown | ((request: LLMRequest) => unknown)>;
+  chunkSize?: number; // Characters per streamed chunk
+  chunkDelayMs?: number; // Pause between chunks, handy for watching progressive rendering
+}
+
+const DEFAULT_ARRAY_LENGTH = 3;
+const DEFAULT_CHUNK_SIZE = 32;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Builds a deterministic value that satisfies the schema. Step-like objects get an
+ * instruction with a bracketed resource so the UI's resource pills have something to show.
+ */
+const synthesize = (node: SchemaNode, key: string, index: number): unknown => {
+  switch (node.type) {
+    case 'string':
+      if (node.enum && node.enum.length > 0) return node.enum[index % node.enum.length];
+      if (key === 'instruction') return `Fixture step ${index + 1} using [Fixture Resource ${index + 1}]`;
+      if (key === 'resources') return `Fixture Resource ${index + 1}`;
+      return `Fixture ${key} ${index + 1}`;
+    case 'number':
+    case 'integer':
+      return index + 1;
+    case 'boolean':
+      return index % 2 === 0;
+    case 'array': {
+      const fallback = key === 'resources' ? 1 : DEFAULT_ARRAY_LENGTH;
+      const length = node.minItems ?? Math.min(fallback, node.maxItems ?? fallback);
+      // Scalar lists inherit the parent's index so "resources" lines up with "instruction".
+      const isScalar = node.items.type !== 'object' && node.items.type !== 'array';
+      return Array.from({ length }, (_, i) => synthesize(node.items, key, isScalar ? index + i : i));
+    }
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(node.properties).map(([prop, child]) => [prop, synthesize(child, prop, index)])
+      );
+  }
+};
+
+/**
+ * Offline provider for tests and demos. Never touches the network and always returns
+ * the same output for the same request.
+ */
+export const createFixtureProvider = ({
+  responses = {},
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  chunkDelayMs = 0,
+}: FixtureOptions = {}): LLMProvider => ({
+  name: 'fixture',
+  model: 'fixture',
+  streamJSON: async function* (request): LLMStream {
+    const canned = responses[request.task];
+    const payload = canned === undefined
+      ? synthesize(request.schema, 'root', 0)
+      : typeof canned === 'function' ? canned(request) : canned;
+    const text = JSON.stringify(payload);
+
+    for (let i = 0; i < text.length; i += chunkSize) {
+      if (chunkDelayMs > 0) await wait(chunkDelayMs);
+      request.signal?.throwIfAborted();
+      yield text.slice(i, i + chunkSize);
+    }
+    return { text, usage: estimateUsage(request, text) };
+  },
+});
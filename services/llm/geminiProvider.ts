@@ -0,0 +1,74 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { LLMProvider, LLMStream, LLMUsage, SchemaNode } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+const TYPE_MAP: Record<SchemaNode['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+const toGeminiSchema = (node: SchemaNode): Schema => {
+  const schema: Schema = { type: TYPE_MAP[node.type] };
+  if (node.description) schema.description = node.description;
+
+  switch (node.type) {
+    case 'string':
+      if (node.enum) schema.enum = node.enum;
+      break;
+    case 'array':
+      schema.items = toGeminiSchema(node.items);
+      if (node.minItems !== undefined) schema.minItems = String(node.minItems);
+      if (node.maxItems !== undefined) schema.maxItems = String(node.maxItems);
+      break;
+    case 'object':
+      schema.properties = Object.fromEntries(
+        Object.entries(node.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+      );
+      if (node.required) schema.required = node.required;
+      break;
+  }
+  return schema;
+};
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string = DEFAULT_GEMINI_MODEL): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    model,
+    streamJSON: async function* ({ prompt, systemInstruction, schema, signal }): LLMStream {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          systemInstruction,
+          responseSchema: toGeminiSchema(schema),
+          abortSignal: signal,
+        },
+      });
+
+      let text = '';
+      let usage: LLMUsage | undefined;
+      for await (const chunk of stream) {
+        const delta = chunk.text || '';
+        text += delta;
+        // Counts are cumulative, so the last chunk that has them wins
+        const meta = chunk.usageMetadata;
+        if (meta) {
+          usage = {
+            promptTokens: meta.promptTokenCount || 0,
+            responseTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+          };
+        }
+        if (delta) yield delta;
+      }
+      return { text, usage };
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { createFixtureProvider } from "./fixtureProvider";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createJSONArrayStreamParser } from "./jsonArrayStream";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { LLMProvider } from "./types";
+
+export * from "./types";
+export * from "./errors";
+export { validateAgainstSchema } from "./validate";
+export * from "./responseCache";
+export { estimateUsage } from "./usage";
+export type { JSONArrayStreamParser } from "./jsonArrayStream";
+export { createFixtureProvider, createGeminiProvider, createOpenAICompatibleProvider, createJSONArrayStreamParser };
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Picks an adapter from the build-time environment:
+ *   LLM_PROVIDER = gemini (default) | openai | fixture
+ *   LLM_MODEL, LLM_BASE_URL, LLM_API_KEY
+ */
+const createProviderFromEnv = (): LLMProvider => {
+  const kind = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  switch (kind) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:8080/v1',
+        model: process.env.LLM_MODEL || 'local-model',
+        apiKey: process.env.LLM_API_KEY,
+      });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider(process.env.API_KEY, process.env.LLM_MODEL || DEFAULT_GEMINI_MODEL);
+  }
+};
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) activeProvider = createProviderFromEnv();
+  return activeProvider;
+};
+
+// Swap the provider at runtime, e.g. to a fixture provider in tests.
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider;
+};
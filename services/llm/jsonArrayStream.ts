@@ -0,0 +1,85 @@
+export interface JSONArrayStreamParser {
+  /**
+   * Feeds the next chunk of text and returns the top-level array elements
+   * that became complete with it, already parsed.
+   */
+  push: (chunk: string) => unknown[];
+}
+
+/**
+ * Incremental parser for a streamed top-level JSON array. Only the new characters
+ * of each chunk are scanned; every element is handed to `JSON.parse` exactly once,
+ * as soon as its closing character arrives. Anything that is not an array yields nothing.
+ */
+export const createJSONArrayStreamParser = (): JSONArrayStreamParser => {
+  let buffer = '';
+  let scanned = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let done = false;
+
+  const take = (end: number, out: unknown[]) => {
+    out.push(JSON.parse(buffer.slice(elementStart, end)));
+    elementStart = -1;
+  };
+
+  const push = (chunk: string): unknown[] => {
+    const completed: unknown[] = [];
+    if (done) return completed;
+    buffer += chunk;
+
+    for (; scanned < buffer.length; scanned++) {
+      const ch = buffer[scanned];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') {
+          inString = false;
+          if (depth === 1) take(scanned + 1, completed); // A string element
+        }
+        continue;
+      }
+
+      if (depth === 0) {
+        if (ch === '[') depth = 1;
+        else if (!/\s/.test(ch)) done = true; // Top level is not an array
+        if (done) break;
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          if (depth === 1) elementStart = scanned;
+          inString = true;
+          break;
+        case '{':
+        case '[':
+          if (depth === 1) elementStart = scanned;
+          depth++;
+          break;
+        case '}':
+        case ']':
+          if (depth === 1) {
+            // End of the array; a trailing number/literal element ends here too
+            if (elementStart >= 0) take(scanned, completed);
+            done = true;
+          } else if (--depth === 1) {
+            take(scanned + 1, completed);
+          }
+          break;
+        case ',':
+          if (depth === 1 && elementStart >= 0) take(scanned, completed);
+          break;
+        default:
+          if (depth === 1 && elementStart < 0 && !/\s/.test(ch)) elementStart = scanned;
+      }
+      if (done) break;
+    }
+    return completed;
+  };
+
+  return { push };
+};
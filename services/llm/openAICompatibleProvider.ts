@@ -0,0 +1,115 @@
+import { errorKindFromStatus, LLMError } from "./errors";
+import { LLMProvider, LLMStream, LLMUsage, SchemaNode } from "./types";
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  model: string;
+  apiKey?: string;
+}
+
+const toJsonSchema = (node: SchemaNode): Record<string, unknown> => {
+  switch (node.type) {
+    case 'array':
+      return {
+        ...node,
+        items: toJsonSchema(node.items),
+      };
+    case 'object':
+      return {
+        ...node,
+        properties: Object.fromEntries(
+          Object.entries(node.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        ),
+        additionalProperties: false,
+      };
+    default:
+      return { ...node };
+  }
+};
+
+/**
+ * Reads a server-sent event stream and yields the `data:` payload of each event.
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` endpoint.
+ * The schema is sent as `response_format.json_schema`, which llama.cpp and Ollama
+ * both use to constrain decoding.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleOptions): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    model,
+    streamJSON: async function* ({ task, prompt, systemInstruction, schema, signal }): LLMStream {
+      const messages = [
+        ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+        { role: 'user', content: prompt },
+      ];
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true }, // Adds a final event with token counts
+          response_format: {
+            type: 'json_schema',
+            // Not strict: OpenAI's strict mode wants every property listed in `required`, and ours has optional ones
+            json_schema: { name: task, strict: false, schema: toJsonSchema(schema) },
+          },
+        }),
+        signal,
+      });
+
+      if (!res.ok) {
+        throw new LLMError(errorKindFromStatus(res.status), `LLM request failed (${res.status}): ${await res.text()}`);
+      }
+
+      if (!res.body) {
+        throw new LLMError('server', 'LLM request failed: response has no body to stream');
+      }
+
+      let text = '';
+      let usage: LLMUsage | undefined;
+      for await (const data of readServerSentEvents(res.body)) {
+        if (data === '[DONE]') break;
+        const event = JSON.parse(data);
+        if (event.usage) {
+          usage = { promptTokens: event.usage.prompt_tokens || 0, responseTokens: event.usage.completion_tokens || 0 };
+        }
+        const delta: string = event.choices?.[0]?.delta?.content || '';
+        text += delta;
+        if (delta) yield delta;
+      }
+      return { text, usage };
+    },
+  };
+};
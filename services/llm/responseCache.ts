@@ -0,0 +1,159 @@
+import { LLMProvider, LLMRequest } from "./types";
+
+/**
+ * Persistent cache of validated model responses. A response is reused when the same task is
+ * asked the same thing of the same provider and model: the key covers the prompt (which
+ * names the output language), the system instruction and the schema, with whitespace
+ * normalized. Identical requests that are still running share one call.
+ */
+
+export interface CachedResponse {
+  text: string; // Raw JSON text that passed validation
+  createdAt: number;
+}
+
+export interface ResponseCacheStore {
+  get: (key: string) => Promise<CachedResponse | undefined>;
+  set: (key: string, entry: CachedResponse) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+  prune: (olderThan: number) => Promise<void>; // Drops entries created before this time
+}
+
+export interface ResponseCache {
+  store: ResponseCacheStore;
+  ttlMs: number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'process-jinn-llm-cache';
+const STORE_NAME = 'responses';
+
+export const createMemoryCacheStore = (): ResponseCacheStore => {
+  const entries = new Map<string, CachedResponse>();
+  return {
+    get: async key => entries.get(key),
+    set: async (key, entry) => { entries.set(key, entry); },
+    delete: async key => { entries.delete(key); },
+    clear: async () => entries.clear(),
+    prune: async olderThan => {
+      entries.forEach((entry, key) => { if (entry.createdAt < olderThan) entries.delete(key); });
+    },
+  };
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDBCacheStore = (dbName = DB_NAME): ResponseCacheStore => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      db = promisify(request);
+    }
+    return db;
+  };
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+    promisify(action((await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+
+  return {
+    get: key => run('readonly', store => store.get(key)),
+    set: async (key, entry) => { await run('readwrite', store => store.put(entry, key)); },
+    delete: async key => { await run('readwrite', store => store.delete(key)); },
+    clear: async () => { await run('readwrite', store => store.clear()); },
+    prune: async olderThan => {
+      const cursor = (await open()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor();
+      await new Promise<void>((resolve, reject) => {
+        cursor.onsuccess = () => {
+          if (!cursor.result) return resolve();
+          if ((cursor.result.value as CachedResponse).createdAt < olderThan) cursor.result.delete();
+          cursor.result.continue();
+        };
+        cursor.onerror = () => reject(cursor.error);
+      });
+    },
+  };
+};
+
+const normalize = (text = '') => text.replace(/\s+/g, ' ').trim();
+
+// 53-bit string hash (cyrb53); keys stay short without waiting on crypto.subtle
+const hash = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const getResponseCacheKey = (request: LLMRequest, provider: Pick<LLMProvider, 'name' | 'model'>): string => {
+  const payload = JSON.stringify([normalize(request.prompt), normalize(request.systemInstruction), request.schema]);
+  return `${provider.name}:${provider.model}:${request.task}:${hash(payload)}`;
+};
+
+const createDefaultCache = (): ResponseCache | null => {
+  const hours = Number(process.env.LLM_CACHE_TTL_HOURS || NaN);
+  const ttlMs = Number.isFinite(hours) ? hours * 60 * 60 * 1000 : DEFAULT_CACHE_TTL_MS;
+  if (ttlMs <= 0) return null;
+  const store = typeof indexedDB !== 'undefined' ? createIndexedDBCacheStore() : createMemoryCacheStore();
+  // Expired entries are otherwise only dropped when the same request comes up again
+  store.prune(Date.now() - ttlMs).catch(err => console.warn('Response cache unavailable', err));
+  return { store, ttlMs };
+};
+
+let activeCache: ResponseCache | null | undefined;
+
+export const getResponseCache = (): ResponseCache | null => {
+  if (activeCache === undefined) activeCache = createDefaultCache();
+  return activeCache;
+};
+
+/** The cached text for a key, unless it has expired. A broken store counts as a miss. */
+export const readCachedResponse = async (key: string, now = Date.now()): Promise<string | undefined> => {
+  const cache = getResponseCache();
+  if (!cache) return undefined;
+  try {
+    const entry = await cache.store.get(key);
+    if (!entry) return undefined;
+    if (now - entry.createdAt <= cache.ttlMs) return entry.text;
+    await cache.store.delete(key);
+  } catch (err) {
+    console.warn('Response cache unavailable', err);
+  }
+  return undefined;
+};
+
+export const writeCachedResponse = async (key: string, text: string, now = Date.now()): Promise<void> => {
+  const cache = getResponseCache();
+  if (!cache) return;
+  try {
+    await cache.store.set(key, { text, createdAt: now });
+  } catch (err) {
+    console.warn('Response cache unavailable', err);
+  }
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  await getResponseCache()?.store.clear();
+};
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/** Runs the request unless an identical one is already running, in which case its result is shared. */
+export const shareInFlight = <T>(key: string, run: () => Promise<T>): Promise<T> => {
+  const running = inFlight.get(key);
+  if (running) return running as Promise<T>;
+  const promise = run().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+};
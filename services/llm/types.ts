@@ -0,0 +1,41 @@
+/**
+ * Provider-neutral description of the JSON shape we expect back from a model.
+ * Adapters translate this into whatever their backend understands
+ * (Gemini `Schema`, OpenAI `json_schema`, ...).
+ */
+export type SchemaNode =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'number' | 'integer' | 'boolean'; description?: string }
+  | { type: 'array'; items: SchemaNode; minItems?: number; maxItems?: number; description?: string }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[]; description?: string };
+
+export interface LLMRequest {
+  task: string; // Name of the service function issuing the request, e.g. "generateStrategies"
+  prompt: string;
+  systemInstruction?: string;
+  schema: SchemaNode;
+  signal?: AbortSignal; // Aborting rejects the stream with an AbortError
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  responseTokens: number; // Including any thinking tokens billed as output
+  estimated?: boolean; // Counted from text length because the backend reported none
+}
+
+export interface LLMResponse {
+  text: string; // Raw JSON text as returned by the model
+  usage?: LLMUsage; // Token counts, when the backend reports them
+}
+
+/**
+ * Yields raw text deltas as the model produces them and returns the complete
+ * response once the stream ends.
+ */
+export type LLMStream = AsyncGenerator<string, LLMResponse>;
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  streamJSON: (request: LLMRequest) => LLMStream;
+}
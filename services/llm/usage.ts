@@ -0,0 +1,13 @@
+import { LLMRequest, LLMUsage } from "./types";
+
+// Rough average for English and JSON; CJK text runs closer to one token per character
+const CHARS_PER_TOKEN = 4;
+
+const estimateTokens = (text = '') => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/** Token counts guessed from text length, for backends that don't report usage. */
+export const estimateUsage = ({ prompt, systemInstruction }: LLMRequest, responseText: string): LLMUsage => ({
+  promptTokens: estimateTokens(prompt) + estimateTokens(systemInstruction),
+  responseTokens: estimateTokens(responseText),
+  estimated: true,
+});
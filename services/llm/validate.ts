@@ -0,0 +1,51 @@
+import { SchemaNode } from "./types";
+
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+/**
+ * Checks a parsed response against the schema it was requested with and returns
+ * one readable message per problem, e.g. `$[2].instruction: expected string, got number`.
+ * Models don't always honour the schema, so nothing from them is trusted before this passes.
+ */
+export const validateAgainstSchema = (value: unknown, schema: SchemaNode, path: string = '$'): string[] => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.map(v => `"${v}"`).join(', ')}, got "${value}"`];
+      }
+      return [];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: expected number, got ${describe(value)}`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path}: expected integer, got ${describe(value)}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+      }
+      value.forEach((item, idx) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${idx}]`)));
+      return errors;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined) errors.push(`${path}.${key}: missing required field`);
+      });
+      Object.entries(schema.properties).forEach(([key, child]) => {
+        if (record[key] !== undefined) errors.push(...validateAgainstSchema(record[key], child, `${path}.${key}`));
+      });
+      return errors;
+    }
+  }
+};
@@ -0,0 +1,92 @@
+import { Budget, GoalState, PlanItem, Resource, Step, Strategy } from "../types";
+import { getLocale } from "../translations";
+import { getRootSteps } from "./planGraph";
+import { sumDefined } from "./planSchedule";
+import { getResourceUsage } from "./resourceRegistry";
+
+// How many steps and resources the over-budget warning offers to make cheaper
+const EXPENSIVE_ITEM_LIMIT = 3;
+
+export const getGoalBudget = (goal: Pick<GoalState, 'budgetCap' | 'currency' | 'language'>): Budget => ({
+  currency: goal.currency || getLocale(goal.language).currency,
+  cap: goal.budgetCap,
+});
+
+/**
+ * Like durations, a broken-down step costs what its sub-steps cost together, but only once
+ * every sub-step is priced; until then the step's own estimate is the better guess.
+ */
+export const getStepCost = (step: Step): number | undefined => {
+  const subCosts = (step.subSteps || []).map(getStepCost);
+  const fromSubSteps = subCosts.length > 0 && subCosts.every(cost => cost !== undefined) ? sumDefined(subCosts) : undefined;
+  return fromSubSteps ?? step.costEstimate;
+};
+
+/** What is still to be spent on a resource: price per unit times quantity, nothing once it is owned or acquired. */
+export const getResourceCost = (resource: Resource): number | undefined => {
+  if (resource.costEstimate === undefined || resource.status === 'owned' || resource.status === 'acquired') return undefined;
+  return resource.costEstimate * (resource.quantity ?? 1);
+};
+
+// Registered resources named by at least one step of the plan
+const getPlanResources = (plan: PlanItem[], resources: Resource[]): Resource[] => {
+  const usage = getResourceUsage(plan, resources);
+  return resources.filter(r => (usage.get(r.id) || []).length > 0);
+};
+
+/**
+ * Total of every root step's cost plus the resources the plan still needs to get;
+ * undefined when nothing in the plan has been priced.
+ */
+export const getPlanCost = (plan: PlanItem[], resources: Resource[]): number | undefined =>
+  sumDefined([...getRootSteps(plan).map(getStepCost), ...getPlanResources(plan, resources).map(getResourceCost)]);
+
+/** What getting one unit of a resource costs, summed over its acquisition steps. */
+export const getAcquisitionCost = (steps: Step[]): number | undefined => sumDefined(steps.map(getStepCost));
+
+export interface StrategyCost {
+  amount: number;
+  isRough: boolean; // The model's guess for the whole strategy, made before there was a plan
+}
+
+export const getStrategyCost = (strategy: Strategy, resources: Resource[]): StrategyCost | null => {
+  const fromPlan = strategy.plan && strategy.plan.length > 0 ? getPlanCost(strategy.plan, resources) : undefined;
+  if (fromPlan !== undefined) return { amount: fromPlan, isRough: false };
+  return strategy.estimatedCost !== undefined ? { amount: strategy.estimatedCost, isRough: true } : null;
+};
+
+export const isOverBudget = (cost: number | undefined, budget: Budget): boolean =>
+  cost !== undefined && budget.cap !== undefined && cost > budget.cap;
+
+export type ExpensiveItem =
+  | { type: 'step'; step: Step; cost: number }
+  | { type: 'resource'; resource: Resource; cost: number };
+
+/**
+ * The open steps and unacquired resources that cost the most, priciest first. Only steps
+ * without sub-steps are considered: that is where estimates live, and a rewrite would drop
+ * a breakdown anyway.
+ */
+export const getMostExpensiveItems = (plan: PlanItem[], resources: Resource[], limit = EXPENSIVE_ITEM_LIMIT): ExpensiveItem[] => {
+  const items: ExpensiveItem[] = [];
+  const collect = (step: Step) => {
+    if (step.isCompleted) return;
+    if (step.subSteps && step.subSteps.length > 0) step.subSteps.forEach(collect);
+    else if ((step.costEstimate || 0) > 0) items.push({ type: 'step', step, cost: step.costEstimate! });
+  };
+  getRootSteps(plan).forEach(collect);
+  getPlanResources(plan, resources).forEach(resource => {
+    const cost = getResourceCost(resource);
+    if (cost) items.push({ type: 'resource', resource, cost });
+  });
+  return items.sort((a, b) => b.cost - a.cost).slice(0, limit);
+};
+
+/** Formats an amount in the goal's currency; unknown currency codes are printed as typed. */
+export const formatMoney = (amount: number, currency: string, locale: string): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: amount >= 100 ? 0 : 2 }).format(amount);
+  } catch {
+    return `${Math.round(amount * 100) / 100} ${currency}`;
+  }
+};
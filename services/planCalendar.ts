@@ -0,0 +1,154 @@
+import { PlanItem, Step, Strategy } from "../types";
+import { getRootSteps } from "./planGraph";
+import { buildPlanSchedule, getStepDuration } from "./planSchedule";
+
+// All dates are calendar days in YYYY-MM-DD form, handled in UTC so time zones never shift them
+export interface StepDates {
+  start: string;
+  end: string; // Exclusive, like DTEND in iCalendar
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export const addDays = (date: string, days: number): string =>
+  new Date(parseDate(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+
+export const formatShortDate = (date: string) =>
+  parseDate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export const isValidDate = (date: string | undefined): date is string =>
+  !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(parseDate(date).getTime());
+
+const spanDays = (step: Step) => Math.max(1, Math.ceil(getStepDuration(step) || 0));
+
+/**
+ * Sub-steps run one after another inside their parent, unless one has a manual date.
+ */
+const scheduleSubSteps = (steps: Step[], parentStart: string, dates: Map<string, StepDates>) => {
+  let cursor = 0;
+  steps.forEach(sub => {
+    const start = isValidDate(sub.scheduledDate) ? sub.scheduledDate : addDays(parentStart, Math.floor(cursor));
+    dates.set(sub.id, { start, end: addDays(start, spanDays(sub)) });
+    cursor += getStepDuration(sub) || 0;
+    if (sub.subSteps) scheduleSubSteps(sub.subSteps, start, dates);
+  });
+};
+
+/**
+ * Works out calendar dates for every step. With a goal start date, root steps are
+ * placed by the dependency schedule and manual dates pin individual steps. Without
+ * one, only manually dated steps (and their sub-steps) get dates.
+ */
+export const schedulePlanDates = (plan: PlanItem[], startDate?: string): Map<string, StepDates> => {
+  const dates = new Map<string, StepDates>();
+  const hasStart = isValidDate(startDate);
+
+  const pinned = new Map<string, number>();
+  if (hasStart) {
+    getRootSteps(plan).forEach(step => {
+      if (isValidDate(step.scheduledDate)) pinned.set(step.id, daysBetween(startDate, step.scheduledDate));
+    });
+  }
+
+  buildPlanSchedule(plan, pinned).entries.forEach(entry => {
+    const start = isValidDate(entry.step.scheduledDate)
+      ? entry.step.scheduledDate
+      : hasStart ? addDays(startDate, Math.floor(entry.startDay)) : null;
+    if (!start) return;
+
+    dates.set(entry.step.id, { start, end: addDays(start, spanDays(entry.step)) });
+    if (entry.step.subSteps) scheduleSubSteps(entry.step.subSteps, start, dates);
+  });
+
+  return dates;
+};
+
+// --- iCalendar export (RFC 5545) ---
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+/**
+ * Lines longer than 75 octets of UTF-8 are folded with a leading space on the continuation,
+ * which counts towards its 75. Breaks fall between code points, so multi-byte characters
+ * and surrogate pairs stay whole.
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+const toICSDate = (date: string) => date.replace(/-/g, '');
+
+const stripBrackets = (text: string) => text.replace(/\[([^\]]+)\]/g, '$1');
+
+/**
+ * Exports every step, including sub-steps, as a VTODO. Completion maps to
+ * STATUS:COMPLETED / NEEDS-ACTION and sub-steps point at their parent via RELATED-TO.
+ */
+export const generateICS = (strategy: Strategy, dates: Map<string, StepDates>, calendarName: string): string => {
+  const toICSTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const stamp = toICSTime(new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Process Jinn//Plan Export//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  const writeStep = (step: Step, parentId: string | null) => {
+    const stepDates = dates.get(step.id);
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${step.id}@process-jinn`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeText(stripBrackets(step.instruction))}`,
+      `DESCRIPTION:${escapeText(strategy.title)}`,
+    );
+    if (stepDates) {
+      lines.push(`DTSTART;VALUE=DATE:${toICSDate(stepDates.start)}`, `DUE;VALUE=DATE:${toICSDate(stepDates.end)}`);
+    }
+    if (step.isCompleted) {
+      lines.push('STATUS:COMPLETED', 'PERCENT-COMPLETE:100');
+      if (step.completedAt !== undefined) lines.push(`COMPLETED:${toICSTime(new Date(step.completedAt))}`);
+    } else {
+      lines.push('STATUS:NEEDS-ACTION');
+    }
+    if (parentId) lines.push(`RELATED-TO;RELTYPE=PARENT:${parentId}@process-jinn`);
+    lines.push('END:VTODO');
+
+    step.subSteps?.forEach(sub => writeStep(sub, step.id));
+  };
+
+  getRootSteps(strategy.plan || []).forEach(step => writeStep(step, null));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
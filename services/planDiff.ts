@@ -0,0 +1,93 @@
+import { PlanItem, PlanItemDiff } from "../types";
+
+// Items at least this similar are treated as the same step reworded rather than a removal plus an addition.
+const REWORD_THRESHOLD = 0.35;
+
+export const getPlanItemText = (item: PlanItem): string =>
+  item.type === 'single' ? item.step.instruction : item.group.steps.map(s => s.instruction).join(' + ');
+
+// Words for alphabetic scripts, single characters for Chinese, which has no spaces to split on.
+const tokenize = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[\[\]]/g, '').match(/\p{Script=Han}|[\p{L}\p{N}]+/gu) || []);
+
+/**
+ * Jaccard similarity of the two items' tokens, from 0 (nothing shared) to 1 (same words).
+ */
+export const planItemSimilarity = (a: PlanItem, b: PlanItem): number => {
+  const left = tokenize(getPlanItemText(a));
+  const right = tokenize(getPlanItemText(b));
+  if (left.size === 0 && right.size === 0) return 1;
+  let shared = 0;
+  left.forEach(token => { if (right.has(token)) shared++; });
+  return shared / (left.size + right.size - shared);
+};
+
+/**
+ * Lines up the current tail of a plan with a proposed replacement. Pairs are chosen in
+ * order to maximise total similarity (like a text diff, but per plan item). Paired items
+ * are "unchanged" or "reworded"; leftovers are "removed" or "added".
+ */
+export const diffPlanItems = (current: PlanItem[], proposed: PlanItem[]): PlanItemDiff[] => {
+  const similarity = current.map(c => proposed.map(p => planItemSimilarity(c, p)));
+
+  // best[i][j] = best total similarity aligning current[i..] with proposed[j..]
+  const best: number[][] = Array.from({ length: current.length + 1 }, () => new Array(proposed.length + 1).fill(0));
+  for (let i = current.length - 1; i >= 0; i--) {
+    for (let j = proposed.length - 1; j >= 0; j--) {
+      const paired = similarity[i][j] >= REWORD_THRESHOLD ? similarity[i][j] + best[i + 1][j + 1] : -1;
+      best[i][j] = Math.max(paired, best[i + 1][j], best[i][j + 1]);
+    }
+  }
+
+  const diff: PlanItemDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < current.length && j < proposed.length) {
+    const sim = similarity[i][j];
+    if (sim >= REWORD_THRESHOLD && best[i][j] === sim + best[i + 1][j + 1]) {
+      diff.push({
+        change: getPlanItemText(current[i]) === getPlanItemText(proposed[j]) ? 'unchanged' : 'reworded',
+        current: current[i++],
+        proposed: proposed[j++],
+      });
+    } else if (best[i][j] === best[i + 1][j]) {
+      diff.push({ change: 'removed', current: current[i++] });
+    } else {
+      diff.push({ change: 'added', proposed: proposed[j++] });
+    }
+  }
+  while (i < current.length) diff.push({ change: 'removed', current: current[i++] });
+  while (j < proposed.length) diff.push({ change: 'added', proposed: proposed[j++] });
+  return diff;
+};
+
+const getPlanItemId = (item: PlanItem) => item.type === 'single' ? item.step.id : item.group.id;
+
+/**
+ * Builds the new tail from the user's per-item decisions. Rejected items keep the current
+ * version (or stay absent, for additions). Kept items are taken from `live`, the tail as it is
+ * now, so changes made while the diff was open survive; one deleted in the meantime stays gone.
+ * An accepted rewording of a single step only changes its text and estimates: the id (so
+ * dependencies on it still resolve), sub-steps, completion and schedule of the live step carry over.
+ */
+export const applyPlanDiff = (diff: PlanItemDiff[], accepted: boolean[], live: PlanItem[]): PlanItem[] =>
+  diff.flatMap((entry, idx): PlanItem[] => {
+    const take = accepted[idx];
+    const keep = (): PlanItem[] => live.filter(item => getPlanItemId(item) === getPlanItemId(entry.current!));
+    switch (entry.change) {
+      case 'unchanged':
+        return keep();
+      case 'added':
+        return take ? [entry.proposed!] : [];
+      case 'removed':
+        return take ? [] : keep();
+      case 'reworded': {
+        if (!take) return keep();
+        const [old = entry.current!] = keep();
+        const proposed = entry.proposed!;
+        if (old.type !== 'single' || proposed.type !== 'single') return [proposed];
+        const { id, subSteps, dependsOn, scheduledDate, isExpanded, isCompleted, completedAt } = old.step;
+        return [{ ...proposed, step: { ...proposed.step, id, subSteps, dependsOn, scheduledDate, isExpanded, isCompleted, completedAt } }];
+      }
+    }
+  });
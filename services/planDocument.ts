@@ -0,0 +1,255 @@
+import { GoalState, Language, Resource, ResourceStatus, Strategy } from "../types";
+import { RESOURCE_STATUSES } from "./resourceInventory";
+import { isLanguage } from "../translations";
+import { createGoalId, sanitizeGoalState } from "./storage";
+
+export const PLAN_DOCUMENT_FORMAT = 'process-jinn-plan';
+export const PLAN_DOCUMENT_VERSION = 1;
+
+/**
+ * Lossless, versioned snapshot of a goal. Everything in `GoalState` except
+ * transient UI flags (loading, error, selected resource) round-trips through it.
+ */
+export interface PlanDocument {
+  format: typeof PLAN_DOCUMENT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  goal: {
+    description: string;
+    quantification: string;
+    environment: string;
+    startDate?: string;
+    budgetCap?: number;
+    currency?: string;
+    language: Language;
+  };
+  strategies: Strategy[];
+  selectedStrategyId: string | null;
+  resources: Resource[];
+}
+
+/**
+ * Upgrades a document from version N to N + 1. When the format changes, bump
+ * PLAN_DOCUMENT_VERSION and register the step for the previous version here.
+ */
+const MIGRATIONS: Record<number, (doc: any) => any> = {};
+
+export const createPlanDocument = (state: GoalState): PlanDocument => {
+  const clean = sanitizeGoalState(state);
+  return {
+    format: PLAN_DOCUMENT_FORMAT,
+    version: PLAN_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    goal: {
+      description: clean.description,
+      quantification: clean.quantification,
+      environment: clean.environment,
+      startDate: clean.startDate,
+      budgetCap: clean.budgetCap,
+      currency: clean.currency,
+      language: clean.language,
+    },
+    strategies: clean.strategies,
+    selectedStrategyId: clean.selectedStrategyId,
+    resources: clean.resources,
+  };
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const validateSteps = (steps: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(steps)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  steps.forEach((step, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(step)) {
+      errors.push(`${p} must be an object`);
+      return;
+    }
+    if (typeof step.id !== 'string') errors.push(`${p}.id must be a string`);
+    if (typeof step.instruction !== 'string') errors.push(`${p}.instruction must be a string`);
+    if (!isStringArray(step.resources)) errors.push(`${p}.resources must be an array of strings`);
+    if (step.isCompleted !== undefined && typeof step.isCompleted !== 'boolean') errors.push(`${p}.isCompleted must be a boolean`);
+    if (step.completedAt !== undefined && typeof step.completedAt !== 'number') errors.push(`${p}.completedAt must be a number`);
+    ['durationDays', 'effortHours', 'costEstimate'].forEach(key => {
+      if (step[key] !== undefined && (typeof step[key] !== 'number' || step[key] < 0)) errors.push(`${p}.${key} must be a non-negative number`);
+    });
+    if (step.scheduledDate !== undefined && typeof step.scheduledDate !== 'string') errors.push(`${p}.scheduledDate must be a string`);
+    if (step.dependsOn !== undefined && !isStringArray(step.dependsOn)) errors.push(`${p}.dependsOn must be an array of strings`);
+    if (step.subSteps !== undefined) validateSteps(step.subSteps, `${p}.subSteps`, errors);
+  });
+};
+
+const validatePlan = (plan: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(plan)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  plan.forEach((item, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${p} must be an object`);
+    } else if (item.type === 'single') {
+      validateSteps([item.step], `${p}.step`, errors);
+    } else if (item.type === 'parallel') {
+      if (!isObject(item.group) || typeof item.group.id !== 'string') {
+        errors.push(`${p}.group.id must be a string`);
+      } else if (!Array.isArray(item.group.steps) || item.group.steps.length === 0) {
+        errors.push(`${p}.group.steps must be a non-empty array`);
+      } else {
+        validateSteps(item.group.steps, `${p}.group.steps`, errors);
+      }
+    } else {
+      errors.push(`${p}.type must be "single" or "parallel"`);
+    }
+  });
+};
+
+/**
+ * Checks a document that is already at the current version.
+ * Returns a list of human-readable problems; empty means valid.
+ */
+export const validatePlanDocument = (doc: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(doc)) return ['document must be a JSON object'];
+
+  if (doc.format !== PLAN_DOCUMENT_FORMAT) errors.push(`format must be "${PLAN_DOCUMENT_FORMAT}"`);
+  if (doc.version !== PLAN_DOCUMENT_VERSION) errors.push(`version must be ${PLAN_DOCUMENT_VERSION}`);
+
+  if (!isObject(doc.goal)) {
+    errors.push('goal must be an object');
+  } else {
+    ['description', 'quantification', 'environment'].forEach(key => {
+      if (typeof doc.goal[key] !== 'string') errors.push(`goal.${key} must be a string`);
+    });
+    if (doc.goal.startDate !== undefined && typeof doc.goal.startDate !== 'string') errors.push('goal.startDate must be a string');
+    if (doc.goal.budgetCap !== undefined && (typeof doc.goal.budgetCap !== 'number' || doc.goal.budgetCap < 0)) errors.push('goal.budgetCap must be a non-negative number');
+    if (doc.goal.currency !== undefined && typeof doc.goal.currency !== 'string') errors.push('goal.currency must be a string');
+    if (!isLanguage(doc.goal.language)) errors.push(`goal.language "${doc.goal.language}" is not supported`);
+  }
+
+  if (!Array.isArray(doc.strategies)) {
+    errors.push('strategies must be an array');
+  } else {
+    doc.strategies.forEach((s: unknown, i: number) => {
+      const p = `strategies[${i}]`;
+      if (!isObject(s)) {
+        errors.push(`${p} must be an object`);
+        return;
+      }
+      ['id', 'title', 'description'].forEach(key => {
+        if (typeof s[key] !== 'string') errors.push(`${p}.${key} must be a string`);
+      });
+      if (s.estimatedCost !== undefined && (typeof s.estimatedCost !== 'number' || s.estimatedCost < 0)) errors.push(`${p}.estimatedCost must be a non-negative number`);
+      if (s.plan !== undefined) validatePlan(s.plan, `${p}.plan`, errors);
+      if (s.versions !== undefined) {
+        if (!Array.isArray(s.versions)) {
+          errors.push(`${p}.versions must be an array`);
+        } else {
+          s.versions.forEach((v: unknown, j: number) => {
+            const vp = `${p}.versions[${j}]`;
+            if (!isObject(v)) {
+              errors.push(`${vp} must be an object`);
+              return;
+            }
+            if (typeof v.id !== 'string') errors.push(`${vp}.id must be a string`);
+            if (typeof v.name !== 'string') errors.push(`${vp}.name must be a string`);
+            if (typeof v.createdAt !== 'number') errors.push(`${vp}.createdAt must be a number`);
+            validatePlan(v.plan, `${vp}.plan`, errors);
+          });
+        }
+      }
+    });
+  }
+
+  if (doc.selectedStrategyId !== null && typeof doc.selectedStrategyId !== 'string') {
+    errors.push('selectedStrategyId must be a string or null');
+  }
+
+  if (!Array.isArray(doc.resources)) {
+    errors.push('resources must be an array');
+  } else {
+    doc.resources.forEach((r: unknown, i: number) => {
+      const p = `resources[${i}]`;
+      if (!isObject(r)) {
+        errors.push(`${p} must be an object`);
+        return;
+      }
+      if (typeof r.id !== 'string') errors.push(`${p}.id must be a string`);
+      if (typeof r.name !== 'string') errors.push(`${p}.name must be a string`);
+      if (r.acquisitionSteps !== undefined) validateSteps(r.acquisitionSteps, `${p}.acquisitionSteps`, errors);
+      if (r.status !== undefined && !RESOURCE_STATUSES.includes(r.status as ResourceStatus)) {
+        errors.push(`${p}.status must be one of ${RESOURCE_STATUSES.join(', ')}`);
+      }
+      ['quantity', 'costEstimate'].forEach(key => {
+        if (r[key] !== undefined && (typeof r[key] !== 'number' || (r[key] as number) < 0)) errors.push(`${p}.${key} must be a non-negative number`);
+      });
+      if (r.notes !== undefined && typeof r.notes !== 'string') errors.push(`${p}.notes must be a string`);
+      if (r.aliases !== undefined && !isStringArray(r.aliases)) errors.push(`${p}.aliases must be an array of strings`);
+    });
+  }
+
+  return errors;
+};
+
+const migratePlanDocument = (doc: any): any => {
+  let current = doc;
+  while (isObject(current) && typeof current.version === 'number' && current.version < PLAN_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`No migration from plan document version ${current.version}`);
+    current = migrate(current);
+  }
+  return current;
+};
+
+/**
+ * Parses, migrates and validates an exported document. Throws with every
+ * validation problem listed if the document is unusable.
+ */
+export const parsePlanDocument = (text: string): PlanDocument => {
+  const raw = JSON.parse(text);
+  if (isObject(raw) && typeof raw.version === 'number' && raw.version > PLAN_DOCUMENT_VERSION) {
+    throw new Error(`Plan document version ${raw.version} is newer than this app supports (${PLAN_DOCUMENT_VERSION})`);
+  }
+
+  const doc = migratePlanDocument(raw);
+  const errors = validatePlanDocument(doc);
+  if (errors.length > 0) {
+    throw new Error(`Invalid plan document:\n${errors.join('\n')}`);
+  }
+  return doc as PlanDocument;
+};
+
+/**
+ * Turns a document into a fresh goal with its own library id.
+ */
+export const planDocumentToGoalState = (doc: PlanDocument): GoalState => {
+  const selected = doc.strategies.find(s => s.id === doc.selectedStrategyId);
+  const canOpenPlan = !!selected?.plan && selected.plan.length > 0;
+
+  return sanitizeGoalState({
+    goalId: createGoalId(),
+    description: doc.goal.description,
+    quantification: doc.goal.quantification,
+    environment: doc.goal.environment,
+    startDate: doc.goal.startDate,
+    budgetCap: doc.goal.budgetCap,
+    currency: doc.goal.currency,
+    language: doc.goal.language,
+    strategies: doc.strategies,
+    resources: doc.resources,
+    selectedResourceId: null,
+    selectedStrategyId: canOpenPlan ? doc.selectedStrategyId : null,
+    stage: canOpenPlan ? 'PROCESS' : doc.strategies.length > 0 ? 'SELECTION' : 'INPUT',
+    loading: false,
+    error: null,
+  });
+};
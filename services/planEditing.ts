@@ -0,0 +1,249 @@
+import { PlanItem, Step } from "../types";
+
+/**
+ * Where a dragged step lands relative to the step it is dropped on:
+ *   before / after – as a sibling in the target's list (inside its parallel group, if any)
+ *   inside         – as the last sub-step of the target
+ *   parallel       – in a parallel group with the target (root steps only)
+ */
+export type DropPosition = 'before' | 'after' | 'inside' | 'parallel';
+
+export type PlanEdit =
+  | { type: 'add'; afterStepId: string | null; step: Step }
+  | { type: 'delete'; stepId: string }
+  | { type: 'shift'; stepId: string; direction: -1 | 1 }
+  | { type: 'indent'; stepId: string }
+  | { type: 'outdent'; stepId: string }
+  | { type: 'toggleParallel'; stepId: string }
+  | { type: 'move'; stepId: string; targetId: string; position: DropPosition };
+
+interface StepLocation {
+  itemIndex: number; // Plan item that contains the step (or its top-level ancestor)
+  parent: Step | null; // Null for root steps
+  siblings: Step[]; // Live array, except for a single root step (a one-element copy)
+  index: number;
+}
+
+export const createManualStep = (instruction: string): Step => ({
+  id: `step-manual-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  instruction,
+  resources: [],
+  subSteps: [],
+  isExpanded: false,
+});
+
+const rootStepsOf = (item: PlanItem): Step[] => item.type === 'single' ? [item.step] : item.group.steps;
+
+const locate = (plan: PlanItem[], stepId: string): StepLocation | null => {
+  const search = (siblings: Step[], parent: Step | null, itemIndex: number): StepLocation | null => {
+    for (let index = 0; index < siblings.length; index++) {
+      if (siblings[index].id === stepId) return { itemIndex, parent, siblings, index };
+      const children = siblings[index].subSteps;
+      const found = children ? search(children, siblings[index], itemIndex) : null;
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (let itemIndex = 0; itemIndex < plan.length; itemIndex++) {
+    const found = search(rootStepsOf(plan[itemIndex]), null, itemIndex);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const findStep = (plan: PlanItem[], stepId: string): Step | undefined => {
+  const loc = locate(plan, stepId);
+  return loc ? loc.siblings[loc.index] : undefined;
+};
+
+/** The steps enclosing a step, outermost first: [] for a root step, null when it isn't in the plan. */
+export const getStepAncestors = (plan: PlanItem[], stepId: string): Step[] | null => {
+  const ancestors: Step[] = [];
+  let current = locate(plan, stepId);
+  if (!current) return null;
+  while (current.parent) {
+    ancestors.unshift(current.parent);
+    current = locate(plan, current.parent.id)!;
+  }
+  return ancestors;
+};
+
+// A parallel group of one is just a single step.
+const collapseGroup = (plan: PlanItem[], itemIndex: number) => {
+  const item = plan[itemIndex];
+  if (item.type !== 'parallel') return;
+  if (item.group.steps.length === 0) plan.splice(itemIndex, 1);
+  else if (item.group.steps.length === 1) plan[itemIndex] = { type: 'single', step: item.group.steps[0] };
+};
+
+/** Removes a step (with its sub-steps) from the draft and returns it. */
+const extract = (plan: PlanItem[], stepId: string): Step | null => {
+  const loc = locate(plan, stepId);
+  if (!loc) return null;
+  const item = plan[loc.itemIndex];
+
+  if (loc.parent) {
+    return loc.siblings.splice(loc.index, 1)[0];
+  }
+  if (item.type === 'single') {
+    plan.splice(loc.itemIndex, 1);
+    return item.step;
+  }
+  const [step] = item.group.steps.splice(loc.index, 1);
+  collapseGroup(plan, loc.itemIndex);
+  return step;
+};
+
+/** Inserts a step relative to a target. Returns false when the target is missing. */
+const insert = (plan: PlanItem[], step: Step, targetId: string, position: DropPosition): boolean => {
+  const loc = locate(plan, targetId);
+  if (!loc) return false;
+  const target = loc.siblings[loc.index];
+  const item = plan[loc.itemIndex];
+  // Explicit dependencies only make sense where the step used to be
+  const placed = { ...step, dependsOn: undefined };
+
+  if (position === 'inside') {
+    target.subSteps = [...(target.subSteps || []), placed];
+    target.isExpanded = true;
+    return true;
+  }
+
+  // Sub-steps have no parallel groups, so "parallel" just means "next to it"
+  if (loc.parent) {
+    loc.siblings.splice(loc.index + (position === 'before' ? 0 : 1), 0, placed);
+    return true;
+  }
+
+  if (position === 'parallel') {
+    if (item.type === 'parallel') {
+      item.group.steps.push(placed);
+    } else {
+      plan[loc.itemIndex] = {
+        type: 'parallel',
+        group: { id: `group-manual-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`, steps: [item.step, placed] },
+      };
+    }
+  } else if (item.type === 'parallel') {
+    item.group.steps.splice(loc.index + (position === 'before' ? 0 : 1), 0, placed);
+  } else {
+    plan.splice(loc.itemIndex + (position === 'before' ? 0 : 1), 0, { type: 'single', step: placed });
+  }
+  return true;
+};
+
+/**
+ * Keeps explicit root dependencies pointing backwards only. After a move, an edge to a
+ * step that is now later (or gone) is dropped; a step left with none of its original
+ * edges falls back to "after the previous item".
+ */
+const normalizeDependencies = (plan: PlanItem[]): PlanItem[] => {
+  const earlier = new Set<string>();
+  return plan.map(item => {
+    const fix = (step: Step): Step => {
+      if (!step.dependsOn) return step;
+      const kept = step.dependsOn.filter(id => earlier.has(id));
+      return { ...step, dependsOn: kept.length > 0 || step.dependsOn.length === 0 ? kept : undefined };
+    };
+    const fixed: PlanItem = item.type === 'single'
+      ? { ...item, step: fix(item.step) }
+      : { ...item, group: { ...item.group, steps: item.group.steps.map(fix) } };
+    rootStepsOf(item).forEach(s => earlier.add(s.id));
+    return fixed;
+  });
+};
+
+// The step just before this one in reading order, among its own siblings or root items.
+const previousSiblingId = (plan: PlanItem[], loc: StepLocation): string | null => {
+  if (loc.index > 0) return loc.siblings[loc.index - 1].id;
+  if (loc.parent || loc.itemIndex === 0) return null;
+  const previous = rootStepsOf(plan[loc.itemIndex - 1]);
+  return previous[previous.length - 1].id;
+};
+
+const move = (draft: PlanItem[], stepId: string, targetId: string, position: DropPosition): boolean => {
+  if (stepId === targetId) return false;
+  const step = extract(draft, stepId);
+  // A step can't be dropped into its own subtree: the target went out with it
+  return !!step && insert(draft, step, targetId, position);
+};
+
+/**
+ * Applies one structural edit and returns the new plan. Edits that make no sense
+ * (moving the first step up, indenting without a previous step, ...) return the plan unchanged.
+ */
+export const applyPlanEdit = (plan: PlanItem[], edit: PlanEdit): PlanItem[] => {
+  const draft: PlanItem[] = structuredClone(plan);
+  let changed = false;
+
+  switch (edit.type) {
+    case 'add':
+      if (edit.afterStepId) {
+        changed = insert(draft, edit.step, edit.afterStepId, 'after');
+      } else {
+        draft.push({ type: 'single', step: edit.step });
+        changed = true;
+      }
+      break;
+
+    case 'delete':
+      changed = !!extract(draft, edit.stepId);
+      break;
+
+    case 'shift': {
+      const loc = locate(draft, edit.stepId);
+      if (!loc) break;
+      const item = draft[loc.itemIndex];
+      const swapWith = loc.index + edit.direction;
+
+      if (loc.parent || item.type === 'parallel') {
+        // Within a sub-step list or parallel group (both are live arrays in the draft)
+        const list = loc.siblings;
+        if (swapWith < 0 || swapWith >= list.length) break;
+        [list[loc.index], list[swapWith]] = [list[swapWith], list[loc.index]];
+      } else {
+        const otherIndex = loc.itemIndex + edit.direction;
+        if (otherIndex < 0 || otherIndex >= draft.length) break;
+        [draft[loc.itemIndex], draft[otherIndex]] = [draft[otherIndex], draft[loc.itemIndex]];
+      }
+      changed = true;
+      break;
+    }
+
+    case 'indent': {
+      const loc = locate(draft, edit.stepId);
+      const targetId = loc ? previousSiblingId(draft, loc) : null;
+      if (targetId) changed = move(draft, edit.stepId, targetId, 'inside');
+      break;
+    }
+
+    case 'outdent': {
+      const loc = locate(draft, edit.stepId);
+      if (loc?.parent) changed = move(draft, edit.stepId, loc.parent.id, 'after');
+      break;
+    }
+
+    case 'toggleParallel': {
+      const loc = locate(draft, edit.stepId);
+      if (!loc || loc.parent) break;
+      const item = draft[loc.itemIndex];
+      if (item.type === 'parallel') {
+        // Leave the group: run on its own right after it
+        const [step] = item.group.steps.splice(loc.index, 1);
+        draft.splice(loc.itemIndex + 1, 0, { type: 'single', step });
+        collapseGroup(draft, loc.itemIndex);
+        changed = true;
+      } else if (loc.itemIndex > 0) {
+        changed = move(draft, edit.stepId, rootStepsOf(draft[loc.itemIndex - 1])[0].id, 'parallel');
+      }
+      break;
+    }
+
+    case 'move':
+      changed = move(draft, edit.stepId, edit.targetId, edit.position);
+      break;
+  }
+
+  return changed ? normalizeDependencies(draft) : plan;
+};
@@ -0,0 +1,100 @@
+import { PlanItem, Step } from "../types";
+import { resourceKey } from "./resourceRegistry";
+
+/**
+ * Dependency view of a plan. Only root-level steps (single steps and the members
+ * of parallel groups) take part; sub-steps belong to their parent.
+ */
+export interface PlanGraph {
+  steps: Step[]; // Root steps in plan order
+  numbers: Map<string, number>; // 1-based display number per step id
+  dependencies: Map<string, string[]>; // Step id -> ids it waits on
+  layers: Step[][]; // Steps grouped by longest dependency chain; a layer can run at once
+  readyIds: Set<string>; // Not completed, every dependency is completed and no resource is missing
+  waitingOnResources: Set<string>; // Would be ready, but one of its resources is still missing
+}
+
+const itemSteps = (item: PlanItem): Step[] => item.type === 'single' ? [item.step] : item.group.steps;
+
+export const getRootSteps = (plan: PlanItem[]): Step[] => plan.flatMap(itemSteps);
+
+/**
+ * Resolves each root step's dependencies. Steps with an explicit `dependsOn` keep it
+ * (minus unknown ids and self references). Steps without one are converted from the
+ * legacy list semantics: they wait on every step of the previous plan item.
+ */
+export const resolveDependencies = (plan: PlanItem[]): Map<string, string[]> => {
+  const known = new Set(getRootSteps(plan).map(s => s.id));
+  const dependencies = new Map<string, string[]>();
+
+  plan.forEach((item, idx) => {
+    const previous = idx > 0 ? itemSteps(plan[idx - 1]).map(s => s.id) : [];
+    itemSteps(item).forEach(step => {
+      const deps = step.dependsOn
+        ? step.dependsOn.filter(id => id !== step.id && known.has(id))
+        : previous;
+      dependencies.set(step.id, Array.from(new Set(deps)));
+    });
+  });
+
+  return dependencies;
+};
+
+/**
+ * Assigns each step the length of its longest dependency chain. Edges that would
+ * close a cycle are ignored so a malformed plan still renders.
+ */
+const computeDepths = (steps: Step[], dependencies: Map<string, string[]>): Map<string, number> => {
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (id: string): number => {
+    const cached = depths.get(id);
+    if (cached !== undefined) return cached;
+    if (visiting.has(id)) return -1; // Back edge
+    visiting.add(id);
+    const depth = Math.max(-1, ...(dependencies.get(id) || []).map(visit)) + 1;
+    visiting.delete(id);
+    depths.set(id, depth);
+    return depth;
+  };
+
+  steps.forEach(s => visit(s.id));
+  return depths;
+};
+
+export const getUnblockedStepIds = (steps: Step[], dependencies: Map<string, string[]>): Set<string> => {
+  const completed = new Set(steps.filter(s => s.isCompleted).map(s => s.id));
+  return new Set(
+    steps
+      .filter(s => !s.isCompleted && (dependencies.get(s.id) || []).every(id => completed.has(id)))
+      .map(s => s.id)
+  );
+};
+
+/**
+ * `missingResources` holds keys (see resourceKey) of resources the user doesn't have yet; a step
+ * that mentions one of them can't start even when its dependencies are done.
+ */
+export const buildPlanGraph = (plan: PlanItem[], missingResources: Set<string> = new Set()): PlanGraph => {
+  const steps = getRootSteps(plan);
+  const dependencies = resolveDependencies(plan);
+  const depths = computeDepths(steps, dependencies);
+  const unblocked = getUnblockedStepIds(steps, dependencies);
+  const needsMissing = (step: Step) => step.resources.some(r => missingResources.has(resourceKey(r)));
+
+  const layers: Step[][] = [];
+  steps.forEach(step => {
+    const depth = depths.get(step.id) || 0;
+    (layers[depth] = layers[depth] || []).push(step);
+  });
+
+  return {
+    steps,
+    numbers: new Map(steps.map((s, i) => [s.id, i + 1])),
+    dependencies,
+    layers: layers.filter(Boolean),
+    readyIds: new Set(steps.filter(s => unblocked.has(s.id) && !needsMissing(s)).map(s => s.id)),
+    waitingOnResources: new Set(steps.filter(s => unblocked.has(s.id) && needsMissing(s)).map(s => s.id)),
+  };
+};
@@ -0,0 +1,70 @@
+import { GoalState, PlanChange, PlanHistory, PlanSnapshot } from "../types";
+import { sanitizeGoalState } from "./storage";
+
+export const MAX_HISTORY = 50;
+
+const EMPTY_HISTORY: PlanHistory = { past: [], future: [] };
+
+// Snapshots never carry spinners: restoring one must not resurrect a request that is long gone.
+const takeSnapshot = (state: GoalState): PlanSnapshot => {
+  const { strategies, resources } = sanitizeGoalState(state);
+  return { strategies, resources };
+};
+
+// A pending proposal was diffed against the plan being left, so it is dropped with it
+const restoreSnapshot = (state: GoalState, snapshot: PlanSnapshot): GoalState => ({
+  ...state,
+  strategies: snapshot.strategies,
+  resources: snapshot.resources,
+  futureProposal: undefined,
+});
+
+/**
+ * Returns `next` with `prev` remembered as the version before `change`.
+ * Recording a new change drops anything that was undone.
+ */
+export const recordChange = (prev: GoalState, next: GoalState, change: PlanChange): GoalState => {
+  const history = prev.history || EMPTY_HISTORY;
+  const entry = {
+    ...change,
+    id: `change-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    timestamp: Date.now(),
+    snapshot: takeSnapshot(prev),
+  };
+  return { ...next, history: { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] } };
+};
+
+export const canUndo = (state: GoalState) => (state.history?.past.length ?? 0) > 0;
+
+export const canRedo = (state: GoalState) => (state.history?.future.length ?? 0) > 0;
+
+export const undo = (state: GoalState): GoalState => {
+  const { past, future } = state.history || EMPTY_HISTORY;
+  const entry = past[past.length - 1];
+  if (!entry) return state;
+  return {
+    ...restoreSnapshot(state, entry.snapshot),
+    history: { past: past.slice(0, -1), future: [{ ...entry, snapshot: takeSnapshot(state) }, ...future] },
+  };
+};
+
+export const redo = (state: GoalState): GoalState => {
+  const { past, future } = state.history || EMPTY_HISTORY;
+  const entry = future[0];
+  if (!entry) return state;
+  return {
+    ...restoreSnapshot(state, entry.snapshot),
+    history: { past: [...past, { ...entry, snapshot: takeSnapshot(state) }], future: future.slice(1) },
+  };
+};
+
+/**
+ * Moves through history by `offset` versions: negative undoes, positive redoes.
+ */
+export const jumpInHistory = (state: GoalState, offset: number): GoalState => {
+  let result = state;
+  for (let i = 0; i < Math.abs(offset); i++) {
+    result = offset < 0 ? undo(result) : redo(result);
+  }
+  return result;
+};
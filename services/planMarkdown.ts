@@ -0,0 +1,240 @@
+import { GoalState, Language, PlanItem, Resource, Step, Strategy } from "../types";
+import { getTranslation, LANGUAGES, Messages } from "../translations";
+import { extractBracketedResources } from "./resourceRegistry";
+
+const SEPARATOR = '--------------------------------';
+const NO_PLAN_MARKER = '(Plan not generated yet)';
+
+const checkbox = (step: Step) => step.isCompleted ? '[x]' : '[ ]';
+
+// Sub-steps start three spaces in and gain two per level; the first level uses "-", deeper ones "*"
+const writeSubSteps = (steps: Step[], indent: number): string =>
+  steps.map(sub => {
+    const marker = indent === 3 ? '-' : '*';
+    let line = `${' '.repeat(indent)}${marker} ${checkbox(sub)} ${sub.instruction}\n`;
+    if (sub.subSteps) line += writeSubSteps(sub.subSteps, indent + 2);
+    return line;
+  }).join('');
+
+/**
+ * Renders the active strategy as the Markdown document used by Copy/Save.
+ * `parsePlanMarkdown` reads the same format back.
+ */
+export const generatePlainText = (state: GoalState, strategy: Strategy, t: Messages): string => {
+  let text = `${t.appTitle} Plan\n\n`;
+  text += `${t.labelGoal}: ${state.description}\n`;
+  if (state.quantification) text += `${t.labelSpecifics}: ${state.quantification}\n`;
+  if (state.environment) text += `${t.labelEnvironment}: ${state.environment}\n`;
+  text += `\n${SEPARATOR}\n\n`;
+  
+  text += `${t.headerSelected}: ${strategy.title}\n`;
+  text += `${strategy.description}\n\n`;
+  
+  text += `${t.headerRoadmap}:\n`;
+
+  strategy.plan?.forEach((item, idx) => {
+     if (item.type === 'single') {
+        text += `${idx + 1}. ${checkbox(item.step)} ${item.step.instruction}\n`;
+        if (item.step.subSteps) text += writeSubSteps(item.step.subSteps, 3);
+     } else {
+        text += `${idx + 1}. ${t.simultaneous}:\n`;
+        item.group.steps.forEach((step) => {
+           text += `   - ${checkbox(step)} ${step.instruction}\n`;
+           if (step.subSteps) text += writeSubSteps(step.subSteps, 5);
+        });
+     }
+  });
+
+  if (state.resources.length > 0) {
+      text += `\n${SEPARATOR}\n\n`;
+      text += `${t.headerResources}:\n`;
+      state.resources.forEach(res => {
+         text += `\n[${res.name}]\n`;
+         if (res.acquisitionSteps) {
+             res.acquisitionSteps.forEach((step, idx) => {
+                 text += `${idx + 1}. ${step.instruction}\n`;
+             });
+         } else {
+             text += `${NO_PLAN_MARKER}\n`;
+         }
+      });
+  }
+
+  return text;
+};
+
+export interface ImportedPlan {
+  description: string;
+  quantification: string;
+  environment: string;
+  strategy: Strategy;
+  resources: Resource[];
+  language: Language;
+}
+
+const detectLanguage = (lines: string[]): Language | null => {
+  return LANGUAGES.find(lang => lines.some(line => line.trim() === `${getTranslation(lang).headerRoadmap}:`)) || null;
+};
+
+const stripPrefix = (line: string, label: string): string | null =>
+  line.startsWith(`${label}:`) ? line.slice(label.length + 1).trim() : null;
+
+/**
+ * Parses a document written by `generatePlainText` back into a strategy, its plan
+ * and the resource list. Throws if the text does not look like an exported plan.
+ */
+export const parsePlanMarkdown = (text: string): ImportedPlan => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const language = detectLanguage(lines);
+  if (!language) throw new Error('Not a Process Jinn plan: roadmap header not found');
+  const t = getTranslation(language);
+
+  const timestamp = Date.now();
+  let counter = 0;
+  const nextId = (prefix: string) => `${prefix}-import-${timestamp}-${counter++}`;
+
+  const makeStep = (instruction: string, isCompleted: boolean): Step => ({
+    id: nextId('step'),
+    instruction,
+    resources: extractBracketedResources(instruction),
+    subSteps: [],
+    isExpanded: false,
+    isCompleted,
+  });
+
+  // Header fields run until the next label, so values written over several lines come back whole
+  const headerLabels = { description: t.labelGoal, quantification: t.labelSpecifics, environment: t.labelEnvironment };
+  type HeaderField = keyof typeof headerLabels;
+  const headerLines: Record<HeaderField, string[]> = { description: [], quantification: [], environment: [] };
+  let headerField: HeaderField | null = null;
+  let title = '';
+  const descriptionLines: string[] = [];
+  const plan: PlanItem[] = [];
+  const resources: Resource[] = [];
+
+  type Section = 'header' | 'strategy' | 'roadmap' | 'resources';
+  let section: Section = 'header';
+
+  // Parents for indented bullets, innermost last. Empty means "attach to the plan item itself".
+  let bulletStack: { indent: number; step: Step }[] = [];
+  let currentResource: Resource | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    const trimmed = line.trim();
+
+    if (trimmed === SEPARATOR) {
+      section = section === 'header' ? 'strategy' : 'resources';
+      continue;
+    }
+
+    if (section === 'header') {
+      const field = (Object.keys(headerLabels) as HeaderField[]).find(key => stripPrefix(trimmed, headerLabels[key]) !== null);
+      if (field) {
+        headerField = field;
+        headerLines[field] = [stripPrefix(trimmed, headerLabels[field])!];
+      } else if (headerField) {
+        headerLines[headerField].push(trimmed);
+      }
+      continue;
+    }
+
+    if (section === 'strategy') {
+      if (trimmed === `${t.headerRoadmap}:`) {
+        section = 'roadmap';
+        continue;
+      }
+      const selected = stripPrefix(trimmed, t.headerSelected);
+      if (selected !== null && !title) {
+        title = selected;
+      } else if (trimmed) {
+        descriptionLines.push(trimmed);
+      }
+      continue;
+    }
+
+    if (section === 'roadmap') {
+      if (!trimmed) continue;
+
+      const itemMatch = line.match(/^(\d+)\.\s+(.*)$/);
+      if (itemMatch) {
+        bulletStack = [];
+        const rest = itemMatch[2].trim();
+        if (rest === `${t.simultaneous}:`) {
+          plan.push({ type: 'parallel', group: { id: nextId('group'), steps: [] } });
+          continue;
+        }
+        const checkMatch = rest.match(/^\[( |x|X)\]\s?(.*)$/);
+        const step = checkMatch
+          ? makeStep(checkMatch[2], checkMatch[1].toLowerCase() === 'x')
+          : makeStep(rest, false);
+        plan.push({ type: 'single', step });
+        continue;
+      }
+
+      const bulletMatch = line.match(/^(\s+)[-*]\s+\[( |x|X)\]\s?(.*)$/);
+      const currentItem = plan[plan.length - 1];
+      if (bulletMatch && currentItem) {
+        const indent = bulletMatch[1].length;
+        const step = makeStep(bulletMatch[3], bulletMatch[2].toLowerCase() === 'x');
+
+        while (bulletStack.length > 0 && bulletStack[bulletStack.length - 1].indent >= indent) {
+          bulletStack.pop();
+        }
+        const parent = bulletStack[bulletStack.length - 1];
+
+        if (parent) {
+          parent.step.subSteps = [...(parent.step.subSteps || []), step];
+        } else if (currentItem.type === 'parallel') {
+          currentItem.group.steps.push(step);
+        } else {
+          currentItem.step.subSteps = [...(currentItem.step.subSteps || []), step];
+        }
+        bulletStack.push({ indent, step });
+      }
+      continue;
+    }
+
+    // Resources section
+    const resourceMatch = trimmed.match(/^\[(.+)\]$/);
+    if (resourceMatch) {
+      currentResource = {
+        id: nextId('res'),
+        name: resourceMatch[1].trim(),
+        isExpanded: false,
+        language,
+      };
+      resources.push(currentResource);
+      continue;
+    }
+    const acquisitionMatch = trimmed.match(/^\d+\.\s+(.*)$/);
+    if (acquisitionMatch && currentResource) {
+      const instruction = acquisitionMatch[1];
+      currentResource.acquisitionSteps = [
+        ...(currentResource.acquisitionSteps || []),
+        { id: nextId('res-step'), instruction, resources: extractBracketedResources(instruction) },
+      ];
+    }
+  }
+
+  if (!title || plan.length === 0) {
+    throw new Error('Not a Process Jinn plan: no strategy or roadmap steps found');
+  }
+
+  const headerValue = (field: HeaderField) => headerLines[field].join('\n').trim();
+
+  return {
+    description: headerValue('description'),
+    quantification: headerValue('quantification'),
+    environment: headerValue('environment'),
+    language,
+    resources,
+    strategy: {
+      id: nextId('strategy'),
+      title,
+      description: descriptionLines.join('\n'),
+      plan,
+      planLanguage: language,
+    },
+  };
+};
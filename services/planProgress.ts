@@ -0,0 +1,207 @@
+import { GoalState, PlanItem, Step } from "../types";
+import { buildPlanGraph, getRootSteps } from "./planGraph";
+import { addDays, daysBetween } from "./planCalendar";
+
+// Burn-down charts stop looking back after this many days
+const MAX_BURN_DOWN_DAYS = 90;
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * Share of a step that is done, from 0 to 1. A checked step counts fully; otherwise its
+ * sub-steps are averaged, so half of a broken-down step is half done.
+ */
+export const getStepProgress = (step: Step): number =>
+  step.isCompleted ? 1 : step.subSteps && step.subSteps.length > 0 ? average(step.subSteps.map(getStepProgress)) : 0;
+
+/** Every root step (single or in a parallel group) weighs the same. */
+export const getPlanProgress = (plan: PlanItem[]): number => average(getRootSteps(plan).map(getStepProgress));
+
+const mapRootSteps = (plan: PlanItem[], fn: (step: Step) => Step): PlanItem[] =>
+  plan.map((item): PlanItem => item.type === 'single'
+    ? { ...item, step: fn(item.step) }
+    : { ...item, group: { ...item.group, steps: item.group.steps.map(fn) } });
+
+/**
+ * Checks or unchecks a step together with everything below it, then rolls the change up:
+ * a step with sub-steps is complete exactly when all of them are. Steps that were already
+ * done keep their original `completedAt`; a rolled-up parent takes its last sub-step's.
+ */
+export const setStepCompletion = (plan: PlanItem[], stepId: string, completed: boolean, now = Date.now()): PlanItem[] => {
+  const mark = (step: Step): Step => ({
+    ...step,
+    isCompleted: completed,
+    completedAt: completed ? (step.isCompleted ? step.completedAt ?? now : now) : undefined,
+    subSteps: step.subSteps?.map(mark),
+  });
+
+  const visit = (step: Step): Step => {
+    if (step.id === stepId) return mark(step);
+    if (!step.subSteps || step.subSteps.length === 0) return step;
+
+    const subSteps = step.subSteps.map(visit);
+    if (subSteps.every((sub, i) => sub === step.subSteps![i])) return step;
+
+    const done = subSteps.every(sub => sub.isCompleted);
+    return {
+      ...step,
+      subSteps,
+      isCompleted: done,
+      completedAt: done ? Math.max(...subSteps.map(sub => sub.completedAt ?? now)) : undefined,
+    };
+  };
+
+  return mapRootSteps(plan, visit);
+};
+
+// Rolls completion up from the leaves; returns the step itself when nothing changes
+const rollUp = (step: Step, now: number): Step => {
+  if (!step.subSteps || step.subSteps.length === 0) return step;
+  const subSteps = normalizeStepCompletion(step.subSteps, now);
+  const done = subSteps.every(sub => sub.isCompleted);
+  if (subSteps === step.subSteps && done === !!step.isCompleted) return step;
+  return {
+    ...step,
+    subSteps,
+    isCompleted: done,
+    completedAt: done ? step.completedAt ?? Math.max(...subSteps.map(sub => sub.completedAt ?? now)) : undefined,
+  };
+};
+
+/** Steps with completion rolled up at every depth; the same array when nothing changes. */
+export const normalizeStepCompletion = (steps: Step[], now = Date.now()): Step[] => {
+  const next = steps.map(step => rollUp(step, now));
+  return next.every((step, i) => step === steps[i]) ? steps : next;
+};
+
+/**
+ * Sub-steps generated for a step that is already checked count as done too, so breaking
+ * a finished step down never reopens it.
+ */
+export const inheritCompletion = (parent: Step, subSteps: Step[]): Step[] =>
+  parent.isCompleted
+    ? subSteps.map(sub => ({ ...sub, isCompleted: true, completedAt: parent.completedAt, subSteps: sub.subSteps && inheritCompletion(parent, sub.subSteps) }))
+    : subSteps;
+
+/**
+ * Re-applies the roll-up rule after a structural change: adding or indenting open
+ * sub-steps under a checked step reopens it, and a step whose last open sub-step was
+ * removed is done. Returns the same plan when nothing changes.
+ */
+export const normalizeCompletion = (plan: PlanItem[], now = Date.now()): PlanItem[] => {
+  const next = plan.map((item): PlanItem => {
+    if (item.type === 'single') {
+      const step = rollUp(item.step, now);
+      return step === item.step ? item : { ...item, step };
+    }
+    const steps = normalizeStepCompletion(item.group.steps, now);
+    return steps === item.group.steps ? item : { ...item, group: { ...item.group, steps } };
+  });
+  return next.every((item, i) => item === plan[i]) ? plan : next;
+};
+
+/** normalizeCompletion for every plan of a goal and every acquisition plan. */
+export const normalizeGoalCompletion = (state: GoalState, now = Date.now()): GoalState => {
+  const strategies = state.strategies.map(s => {
+    const plan = s.plan && normalizeCompletion(s.plan, now);
+    return plan === s.plan ? s : { ...s, plan };
+  });
+  const resources = state.resources.map(r => {
+    const acquisitionSteps = r.acquisitionSteps && normalizeStepCompletion(r.acquisitionSteps, now);
+    return acquisitionSteps === r.acquisitionSteps ? r : { ...r, acquisitionSteps };
+  });
+  const changed = strategies.some((s, i) => s !== state.strategies[i]) || resources.some((r, i) => r !== state.resources[i]);
+  return changed ? { ...state, strategies, resources } : state;
+};
+
+// --- Dashboard data ---
+
+// Calendar day (YYYY-MM-DD) of a timestamp in the user's time zone
+export const toLocalDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+const endOfLocalDay = (date: string) => new Date(`${date}T00:00:00`).getTime() + 24 * 60 * 60 * 1000;
+
+export interface BurnDownPoint {
+  date: string;
+  remaining: number; // Root steps still to do at the end of the day (fractions for partly done steps)
+  ideal?: number; // Where the estimated schedule says we should be, when there are estimates
+}
+
+export interface BurnDown {
+  total: number; // Root steps
+  points: BurnDownPoint[]; // One per day, oldest first, ending today
+}
+
+/**
+ * Remaining work per day, replayed from completion timestamps. Steps checked before
+ * timestamps existed count as done from the first day. The chart starts at the goal's
+ * start date, or at the first completion when there is none.
+ */
+export const getBurnDown = (plan: PlanItem[], totalDays: number, startDate?: string, now = Date.now()): BurnDown => {
+  const roots = getRootSteps(plan);
+  const today = toLocalDate(now);
+
+  const progressAt = (step: Step, time: number): number => {
+    if (step.isCompleted && (step.completedAt === undefined || step.completedAt <= time)) return 1;
+    return step.subSteps && step.subSteps.length > 0 ? average(step.subSteps.map(sub => progressAt(sub, time))) : 0;
+  };
+
+  const completionDates: string[] = [];
+  const collect = (step: Step) => {
+    if (step.completedAt !== undefined) completionDates.push(toLocalDate(step.completedAt));
+    step.subSteps?.forEach(collect);
+  };
+  roots.forEach(collect);
+
+  let start = [startDate, ...completionDates].filter((d): d is string => !!d && d <= today).sort()[0] || today;
+  if (daysBetween(start, today) >= MAX_BURN_DOWN_DAYS) start = addDays(today, 1 - MAX_BURN_DOWN_DAYS);
+
+  const points: BurnDownPoint[] = [];
+  for (let day = 0, date = start; date <= today; day++, date = addDays(start, day)) {
+    const dayEnd = Math.min(endOfLocalDay(date), now);
+    points.push({
+      date,
+      remaining: roots.length - roots.reduce((sum, step) => sum + progressAt(step, dayEnd), 0),
+      ideal: totalDays > 0 ? Math.max(0, roots.length * (1 - (day + 1) / totalDays)) : undefined,
+    });
+  }
+
+  return { total: roots.length, points };
+};
+
+export interface NextAction {
+  step: Step; // The innermost open step to work on
+  rootNumber: number; // Display number of its root step
+  path: string[]; // Instructions of the enclosing steps, outermost first
+}
+
+/**
+ * What can be done right now: for every root step whose dependencies are finished and whose
+ * resources are at hand, the first unchecked step at the bottom of its breakdown.
+ */
+export const getNextActions = (plan: PlanItem[], missingResources?: Set<string>): NextAction[] => {
+  const graph = buildPlanGraph(plan, missingResources);
+
+  const firstOpen = (step: Step, path: string[]): { step: Step; path: string[] } => {
+    const next = step.subSteps?.find(sub => !sub.isCompleted);
+    return next ? firstOpen(next, [...path, step.instruction]) : { step, path };
+  };
+
+  return graph.steps
+    .filter(step => graph.readyIds.has(step.id))
+    .map(step => ({ ...firstOpen(step, []), rootNumber: graph.numbers.get(step.id)! }));
+};
+
+/** Checked steps at any depth, most recent first. */
+export const getCompletionLog = (plan: PlanItem[], limit: number): Step[] => {
+  const done: Step[] = [];
+  const collect = (step: Step) => {
+    if (step.isCompleted && step.completedAt !== undefined) done.push(step);
+    step.subSteps?.forEach(collect);
+  };
+  getRootSteps(plan).forEach(collect);
+  return done.sort((a, b) => b.completedAt! - a.completedAt!).slice(0, limit);
+};
@@ -0,0 +1,100 @@
+import { PlanItem, Step } from "../types";
+import { buildPlanGraph } from "./planGraph";
+
+export interface StepEstimate {
+  durationDays?: number;
+  effortHours?: number;
+  costEstimate?: number;
+}
+
+export interface ScheduledStep {
+  step: Step;
+  startDay: number;
+  durationDays: number;
+  effortHours: number;
+  isCritical: boolean;
+}
+
+export interface PlanSchedule {
+  entries: ScheduledStep[]; // Root steps in plan order
+  totalDays: number; // Length of the critical path
+  totalEffortHours: number;
+  criticalPath: string[]; // Step ids, first to last
+  unestimatedCount: number; // Root steps with no estimate anywhere in their subtree
+}
+
+export const sumDefined = (values: (number | undefined)[]): number | undefined =>
+  values.some(v => v !== undefined) ? values.reduce<number>((acc, v) => acc + (v || 0), 0) : undefined;
+
+/**
+ * A step that has been broken down takes as long as its sub-steps done one after
+ * another; otherwise its own estimate applies.
+ */
+export const getStepDuration = (step: Step): number | undefined => {
+  const fromSubSteps = step.subSteps && step.subSteps.length > 0 ? sumDefined(step.subSteps.map(getStepDuration)) : undefined;
+  return fromSubSteps ?? step.durationDays;
+};
+
+export const getStepEffort = (step: Step): number | undefined => {
+  const fromSubSteps = step.subSteps && step.subSteps.length > 0 ? sumDefined(step.subSteps.map(getStepEffort)) : undefined;
+  return fromSubSteps ?? step.effortHours;
+};
+
+/**
+ * Schedules root steps as early as their dependencies allow and marks the
+ * longest chain (the critical path). `pinnedStarts` fixes the start day of
+ * specific steps (manually scheduled ones) regardless of their dependencies.
+ */
+export const buildPlanSchedule = (plan: PlanItem[], pinnedStarts: Map<string, number> = new Map()): PlanSchedule => {
+  const graph = buildPlanGraph(plan);
+  const finish = new Map<string, number>();
+  const start = new Map<string, number>();
+  const driver = new Map<string, string | null>(); // Dependency that determines each step's start
+
+  // Layers are already in dependency order
+  graph.layers.flat().forEach(step => {
+    let earliest = 0;
+    let latestDep: string | null = null;
+    (graph.dependencies.get(step.id) || []).forEach(depId => {
+      const depFinish = finish.get(depId);
+      if (depFinish !== undefined && (latestDep === null || depFinish > earliest)) {
+        earliest = depFinish;
+        latestDep = depId;
+      }
+    });
+    const pinned = pinnedStarts.get(step.id);
+    const stepStart = pinned ?? earliest;
+    start.set(step.id, stepStart);
+    finish.set(step.id, stepStart + (getStepDuration(step) || 0));
+    driver.set(step.id, pinned === undefined ? latestDep : null);
+  });
+
+  let lastId: string | null = null;
+  finish.forEach((value, id) => {
+    if (lastId === null || value > finish.get(lastId)!) lastId = id;
+  });
+
+  const criticalPath: string[] = [];
+  for (let id = lastId; id !== null; id = driver.get(id) ?? null) {
+    criticalPath.unshift(id);
+  }
+  const critical = new Set(criticalPath);
+
+  const entries = graph.steps.map(step => ({
+    step,
+    startDay: start.get(step.id) || 0,
+    durationDays: getStepDuration(step) || 0,
+    effortHours: getStepEffort(step) || 0,
+    isCritical: critical.has(step.id),
+  }));
+
+  return {
+    entries,
+    totalDays: lastId !== null ? finish.get(lastId)! : 0,
+    totalEffortHours: entries.reduce((acc, e) => acc + e.effortHours, 0),
+    criticalPath,
+    unestimatedCount: graph.steps.filter(s => getStepDuration(s) === undefined && getStepEffort(s) === undefined).length,
+  };
+};
+
+export const formatAmount = (value: number) => String(Math.round(value * 10) / 10);
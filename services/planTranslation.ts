@@ -0,0 +1,109 @@
+import { Language, PlanItem, Resource, Step, TranslationEntry } from "../types";
+import { getRootSteps } from "./planGraph";
+import { cleanResourceName, extractBracketedResources, resourceKey } from "./resourceRegistry";
+
+/**
+ * Translating a plan in place: texts are swapped for their translations while ids, structure,
+ * estimates and completion stay as they are. Every translation is remembered as a set of
+ * aligned texts, so switching back restores the original wording exactly and only what was
+ * edited in between goes to the model again.
+ */
+
+// Oldest entries are forgotten past this many
+const MEMORY_LIMIT = 2000;
+
+export interface PlanTexts {
+  instructions: string[]; // Steps of the plan and of every acquisition plan
+  names: string[]; // Resources, including names that only appear in brackets
+}
+
+export interface PlanTranslation {
+  instructions: Map<string, string>;
+  names: Map<string, string>;
+}
+
+/** Every distinct text of a plan and its resources that needs translating. */
+export const getPlanTexts = (plan: PlanItem[], resources: Resource[]): PlanTexts => {
+  const instructions = new Set<string>();
+  const names = new Set<string>();
+  const visit = (step: Step) => {
+    instructions.add(step.instruction);
+    [...step.resources, ...extractBracketedResources(step.instruction)].forEach(name => names.add(cleanResourceName(name)));
+    step.subSteps?.forEach(visit);
+  };
+  getRootSteps(plan).forEach(visit);
+  resources.forEach(resource => {
+    names.add(resource.name);
+    resource.acquisitionSteps?.forEach(visit);
+  });
+  return {
+    instructions: Array.from(instructions).filter(text => text.trim()),
+    names: Array.from(names).filter(name => name.trim()),
+  };
+};
+
+export const recallTranslation = (memory: TranslationEntry[], from: Language, to: Language, text: string): string | undefined =>
+  memory.find(entry => entry[from] === text && entry[to] !== undefined)?.[to];
+
+/** Records source/translation pairs; a text seen before gains the new language on its entry. */
+export const rememberTranslations = (
+  memory: TranslationEntry[],
+  from: Language,
+  to: Language,
+  pairs: Map<string, string>
+): TranslationEntry[] => {
+  const next = [...memory];
+  pairs.forEach((translated, source) => {
+    const index = next.findIndex(entry => entry[from] === source);
+    if (index >= 0) next[index] = { ...next[index], [to]: translated };
+    else next.push({ [from]: source, [to]: translated });
+  });
+  return next.slice(-MEMORY_LIMIT);
+};
+
+/**
+ * Pairs every text with its translation. Bracketed names the model left in the source
+ * language are replaced with their translated names, so pills keep pointing at the same resources.
+ */
+export const buildPlanTranslation = (texts: PlanTexts, translate: (text: string) => string): PlanTranslation => {
+  const names = new Map(texts.names.map(name => [name, translate(name)]));
+  const fixBrackets = (text: string) =>
+    text.replace(/\[(.*?)\]/g, (match, name: string) => names.has(cleanResourceName(name)) ? `[${names.get(cleanResourceName(name))}]` : match);
+  return { names, instructions: new Map(texts.instructions.map(text => [text, fixBrackets(translate(text))])) };
+};
+
+/** Swaps in the translations; the old resource names stay on as aliases. */
+export const applyPlanTranslation = (
+  plan: PlanItem[],
+  resources: Resource[],
+  { instructions, names }: PlanTranslation,
+  language: Language
+): { plan: PlanItem[]; resources: Resource[] } => {
+  const translateName = (name: string) => names.get(cleanResourceName(name)) ?? name;
+  const translateStep = (step: Step): Step => ({
+    ...step,
+    instruction: instructions.get(step.instruction) ?? step.instruction,
+    resources: step.resources.map(translateName),
+    subSteps: step.subSteps?.map(translateStep),
+  });
+
+  const translatedPlan = plan.map((item): PlanItem => item.type === 'single'
+    ? { ...item, step: translateStep(item.step) }
+    : { ...item, group: { ...item.group, steps: item.group.steps.map(translateStep) } });
+
+  const translatedResources = resources.map(resource => {
+    const name = translateName(resource.name);
+    const nameKey = resourceKey(name);
+    const aliases = [...(resource.aliases || []), resource.name]
+      .filter((alias, index, all) => resourceKey(alias) !== nameKey && all.findIndex(a => resourceKey(a) === resourceKey(alias)) === index);
+    return {
+      ...resource,
+      name,
+      aliases,
+      language,
+      acquisitionSteps: resource.acquisitionSteps?.map(translateStep),
+    };
+  });
+
+  return { plan: translatedPlan, resources: translatedResources };
+};
@@ -0,0 +1,45 @@
+import { Resource, ResourceStatus, Step } from "../types";
+import { getResourceKeys } from "./resourceRegistry";
+
+export const RESOURCE_STATUSES: ResourceStatus[] = ['owned', 'to_buy', 'to_learn', 'acquired'];
+
+// Unassessed resources are not treated as missing, so older plans don't suddenly block.
+export const isResourceMissing = (status: ResourceStatus | undefined) => status === 'to_buy' || status === 'to_learn';
+
+/** Status per resource key (of the name and every alias), for looking up the names used in step text. */
+export const getResourceStatuses = (resources: Resource[]): Map<string, ResourceStatus> =>
+  new Map(
+    resources
+      .filter((r): r is Resource & { status: ResourceStatus } => !!r.status)
+      .flatMap(r => getResourceKeys(r).map((key): [string, ResourceStatus] => [key, r.status]))
+  );
+
+export const getMissingResourceNames = (resources: Resource[]): Set<string> =>
+  new Set(resources.filter(r => isResourceMissing(r.status)).flatMap(getResourceKeys));
+
+export type ResourceFilter = 'notAcquired' | 'upcoming';
+
+export interface ResourceOverviewEntry {
+  resource: Resource;
+  steps: Step[]; // Every step that uses it, in plan order
+  openSteps: number; // Of those, the ones not done yet
+}
+
+/**
+ * Resources the plan uses, most used first. "notAcquired" keeps what the user doesn't have
+ * yet (including unassessed resources); "upcoming" keeps what a step still to do needs.
+ */
+export const getResourceOverview = (
+  resources: Resource[],
+  usage: Map<string, Step[]>,
+  filters: Set<ResourceFilter>
+): ResourceOverviewEntry[] =>
+  resources
+    .map(resource => {
+      const steps = usage.get(resource.id) || [];
+      return { resource, steps, openSteps: steps.filter(s => !s.isCompleted).length };
+    })
+    .filter(entry => entry.steps.length > 0)
+    .filter(entry => !filters.has('notAcquired') || (entry.resource.status !== 'owned' && entry.resource.status !== 'acquired'))
+    .filter(entry => !filters.has('upcoming') || entry.openSteps > 0)
+    .sort((a, b) => b.steps.length - a.steps.length);
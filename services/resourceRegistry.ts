@@ -0,0 +1,176 @@
+import { Language, PlanItem, Resource, Step } from "../types";
+import { DEFAULT_LANGUAGE } from "../translations";
+
+/**
+ * One list of resources per goal, shared by every plan, sub-step and acquisition plan.
+ * Spellings of the same thing ("VS Code", "[VSCode]", "Visual Studio Code") resolve to a
+ * single resource; the spellings other than its name are kept as aliases, so later
+ * lookups are exact. Bilingual pairs ("Hammer" / "锤子") can't be matched by spelling and
+ * are merged by the model or by hand.
+ */
+
+// Names at least this long that differ by one letter are suggested as possible duplicates
+const TYPO_MIN_LENGTH = 6;
+
+export const cleanResourceName = (name: string) => name.replace(/[\[\]]/g, '').trim();
+
+/**
+ * Comparison key for a resource name: case, brackets, spacing and punctuation are ignored.
+ * Plurals are kept, since "Canvas" is not a plural of "Canva"; see getMergeSuggestions.
+ */
+export const resourceKey = (name: string): string =>
+  cleanResourceName(name).normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// "Visual Studio Code" -> "vscode": initials of every word but the last, then the last word
+const acronymKey = (name: string): string | null => {
+  const words = cleanResourceName(name).split(/[\s\-_/]+/).filter(Boolean);
+  if (words.length < 2 || words.some(w => !/^[a-z0-9]/i.test(w))) return null;
+  return resourceKey(words.slice(0, -1).map(w => w[0]).join('') + words[words.length - 1]);
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Keys of every spelling the resource is known by. */
+export const getResourceKeys = (resource: Resource): string[] =>
+  [resource.name, ...(resource.aliases || [])].map(resourceKey);
+
+/**
+ * Whether two spellings name the same thing: equal keys, or an acronym and its spelled-out
+ * form. Near-misses are never merged automatically, since "Cutter" and "Butter" are
+ * different things; see getMergeSuggestions.
+ */
+export const isSameResourceName = (a: string, b: string): boolean => {
+  const keyA = resourceKey(a);
+  const keyB = resourceKey(b);
+  if (!keyA || !keyB) return false;
+  return keyA === keyB || acronymKey(a) === keyB || acronymKey(b) === keyA;
+};
+
+// A one-letter difference in a longer name may be a typo. Names with digits never are,
+// since "Python 2" and "Python 3" are different things.
+const isPossibleTypo = (a: string, b: string): boolean => {
+  const keyA = resourceKey(a);
+  const keyB = resourceKey(b);
+  return !/\d/.test(keyA + keyB) && Math.min(keyA.length, keyB.length) >= TYPO_MIN_LENGTH && editDistance(keyA, keyB) <= 1;
+};
+
+// "Nails" may be the plural of "Nail", but "News" is not of "New", so these are only suggested
+const isPossiblePlural = (a: string, b: string): boolean => {
+  const [singular, plural] = [resourceKey(a), resourceKey(b)].sort((x, y) => x.length - y.length);
+  return /^[a-z]{3,}$/.test(singular) && (plural === `${singular}s` || plural === `${singular}es`);
+};
+
+/**
+ * Other resources whose spellings are one letter off this one's or a plural of them,
+ * for the user to merge or ignore.
+ */
+export const getMergeSuggestions = (resources: Resource[], resource: Resource): Resource[] => {
+  const spellings = [resource.name, ...(resource.aliases || [])];
+  return resources.filter(other => other.id !== resource.id &&
+    [other.name, ...(other.aliases || [])].some(known =>
+      spellings.some(spelling => isPossibleTypo(known, spelling) || isPossiblePlural(known, spelling))));
+};
+
+/** The resource a name refers to: an exact name or alias first, then an acronym match. */
+export const findResource = (resources: Resource[], name: string): Resource | undefined => {
+  const key = resourceKey(name);
+  if (!key) return undefined;
+  return resources.find(r => getResourceKeys(r).includes(key))
+    || resources.find(r => [r.name, ...(r.aliases || [])].some(known => isSameResourceName(known, name)));
+};
+
+export const createResource = (name: string, language: Language): Resource => ({
+  id: `res-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  name: cleanResourceName(name),
+  isExpanded: false,
+  language,
+});
+
+/**
+ * Adds the names that aren't known yet and records new spellings of known ones as aliases.
+ * Returns the original array when nothing changed.
+ */
+export const registerResourceNames = (resources: Resource[], names: string[], language: Language): Resource[] => {
+  let next = resources;
+  names.forEach(raw => {
+    const name = cleanResourceName(raw);
+    if (!name) return;
+    const existing = findResource(next, name);
+    if (!existing) {
+      next = [...next, createResource(name, language)];
+    } else if (!getResourceKeys(existing).includes(resourceKey(name))) {
+      next = next.map(r => r.id === existing.id ? { ...r, aliases: [...(r.aliases || []), name] } : r);
+    }
+  });
+  return next;
+};
+
+/** Every bracketed name in a step's text, in order of appearance. */
+export const extractBracketedResources = (text: string): string[] =>
+  Array.from(text.matchAll(/\[(.*?)\]/g), match => match[1]).filter(name => name.trim());
+
+/**
+ * Folds one resource into another: the source's spellings become aliases of the target, and
+ * anything the target doesn't know yet (status, price, acquisition plan, ...) is taken from
+ * the source. The target keeps its id; with `useSourceName` it takes the source's name and
+ * language, e.g. when an old English resource is merged into its Chinese counterpart.
+ */
+export const mergeResources = (resources: Resource[], targetId: string, sourceId: string, useSourceName = false): Resource[] => {
+  const target = resources.find(r => r.id === targetId);
+  const source = resources.find(r => r.id === sourceId);
+  if (!target || !source || target.id === source.id) return resources;
+
+  const name = useSourceName ? source.name : target.name;
+  const nameKey = resourceKey(name);
+  const aliases: string[] = [];
+  [target.name, ...(target.aliases || []), source.name, ...(source.aliases || [])].forEach(spelling => {
+    const key = resourceKey(spelling);
+    if (key !== nameKey && !aliases.some(a => resourceKey(a) === key)) aliases.push(spelling);
+  });
+
+  const language = useSourceName ? source.language : target.language;
+  const merged: Resource = {
+    ...source,
+    ...Object.fromEntries(Object.entries(target).filter(([, value]) => value !== undefined)),
+    name,
+    aliases,
+    language,
+    // An acquisition plan in the other language would only be fetched again
+    acquisitionSteps: [target, source].find(r => r.acquisitionSteps && r.language === language)?.acquisitionSteps,
+  };
+  return resources.filter(r => r.id !== source.id).map(r => r.id === target.id ? merged : r);
+};
+
+/** Undoes a wrong merge: the alias becomes a resource of its own again. */
+export const splitResourceAlias = (resources: Resource[], resourceId: string, alias: string): Resource[] => {
+  const resource = resources.find(r => r.id === resourceId);
+  if (!resource || !resource.aliases?.includes(alias)) return resources;
+  const updated = { ...resource, aliases: resource.aliases.filter(a => a !== alias) };
+  return [...resources.map(r => r.id === resourceId ? updated : r), createResource(alias, resource.language || DEFAULT_LANGUAGE)];
+};
+
+/**
+ * Back-references: the steps (at any depth) that use each resource, in plan order.
+ * Steps naming a resource that isn't registered are left out.
+ */
+export const getResourceUsage = (plan: PlanItem[], resources: Resource[]): Map<string, Step[]> => {
+  const usage = new Map<string, Step[]>(resources.map(r => [r.id, []]));
+  const visit = (step: Step) => {
+    const ids = new Set(step.resources.map(name => findResource(resources, name)?.id).filter((id): id is string => !!id));
+    ids.forEach(id => usage.get(id)!.push(step));
+    step.subSteps?.forEach(visit);
+  };
+  // Root steps are walked directly: planGraph depends on this module
+  plan.forEach(item => (item.type === 'single' ? [item.step] : item.group.steps).forEach(visit));
+  return usage;
+};
@@ -0,0 +1,55 @@
+import { Resource, Step } from "../types";
+import { extractBracketedResources, findResource } from "./resourceRegistry";
+
+/**
+ * Acquisition plans bracket what they need in turn ("Book a [Driving Instructor]"), so the
+ * registry forms a tree: each resource's children are the resources its acquisition steps
+ * name. The panel walks it with a trail of the resources opened on the way down.
+ */
+
+/** Registered resources named in a resource's acquisition steps, at any depth, in order. */
+export const getSubResources = (resource: Resource, resources: Resource[]): Resource[] => {
+  const found: Resource[] = [];
+  const visit = (step: Step) => {
+    [...step.resources, ...extractBracketedResources(step.instruction)].forEach(name => {
+      const sub = findResource(resources, name);
+      if (sub && sub.id !== resource.id && !found.includes(sub)) found.push(sub);
+    });
+    step.subSteps?.forEach(visit);
+  };
+  resource.acquisitionSteps?.forEach(visit);
+  return found;
+};
+
+/**
+ * A loop of acquisition plans through the resource (A needs B, which needs A), as the
+ * resources along it starting and ending with the resource itself; null when there is none.
+ * Only plans that have been fetched are followed.
+ */
+export const findAcquisitionCycle = (resources: Resource[], resourceId: string): Resource[] | null => {
+  const start = resources.find(r => r.id === resourceId);
+  if (!start) return null;
+
+  const visited = new Set<string>();
+  const search = (resource: Resource, path: Resource[]): Resource[] | null => {
+    for (const sub of getSubResources(resource, resources)) {
+      if (sub.id === start.id) return [...path, sub];
+      if (visited.has(sub.id)) continue;
+      visited.add(sub.id);
+      const cycle = search(sub, [...path, sub]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return search(start, [start]);
+};
+
+/**
+ * The trail after moving from the current resource to another one. Opening a resource that is
+ * already on the trail goes back to it instead of going deeper, so a loop can't grow the stack.
+ */
+export const enterResource = (trail: string[], currentId: string, nextId?: string): string[] => {
+  if (nextId === currentId) return trail;
+  const index = nextId ? trail.indexOf(nextId) : -1;
+  return index >= 0 ? trail.slice(0, index) : [...trail, currentId];
+};
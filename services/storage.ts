@@ -0,0 +1,155 @@
+import { GoalState, PlanItem, SavedGoalSummary, Step } from "../types";
+import { DEFAULT_LANGUAGE, isLanguage } from "../translations";
+
+const INDEX_KEY = 'process-jinn:goals';
+const GOAL_KEY_PREFIX = 'process-jinn:goal:';
+const ACTIVE_KEY = 'process-jinn:active-goal';
+
+export const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    console.error(e);
+    return fallback;
+  }
+};
+
+export const writeJSON = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Quota exceeded or storage disabled; the in-memory state is still intact.
+    console.error(e);
+  }
+};
+
+const writeIndex = (goals: SavedGoalSummary[]) => writeJSON(INDEX_KEY, goals);
+
+const stripStepFlags = (steps: Step[]): Step[] =>
+  steps.map(step => ({
+    ...step,
+    loading: false,
+    subSteps: step.subSteps ? stripStepFlags(step.subSteps) : step.subSteps,
+  }));
+
+const stripPlanFlags = (plan: PlanItem[]): PlanItem[] =>
+  plan.map((item): PlanItem => item.type === 'single'
+    ? { ...item, step: stripStepFlags([item.step])[0] }
+    : { ...item, group: { ...item.group, steps: stripStepFlags(item.group.steps) } });
+
+/**
+ * Removes transient request flags so a reopened goal never shows a spinner
+ * for a request that died with the previous page.
+ */
+export const sanitizeGoalState = (state: GoalState): GoalState => {
+  const strategies = state.strategies.map(s => ({
+    ...s,
+    planLoading: false,
+    refining: false,
+    plan: s.plan ? stripPlanFlags(s.plan) : s.plan,
+  }));
+
+  let stage = state.stage;
+  // 'PROCESSING' was a full-screen loading stage in goals saved by earlier versions
+  if ((stage as string) === 'PROCESSING' || stage === 'LIBRARY') {
+    stage = strategies.length > 0 ? 'SELECTION' : 'INPUT';
+  }
+  if (stage === 'PROCESS' && !strategies.some(s => s.id === state.selectedStrategyId && s.plan && s.plan.length > 0)) {
+    stage = strategies.length > 0 ? 'SELECTION' : 'INPUT';
+  }
+
+  return {
+    ...state,
+    strategies,
+    // A goal saved in a language that is no longer registered opens in the default one
+    language: isLanguage(state.language) ? state.language : DEFAULT_LANGUAGE,
+    resources: state.resources.map(r => ({
+      ...r,
+      loading: false,
+      acquisitionSteps: r.acquisitionSteps ? stripStepFlags(r.acquisitionSteps) : r.acquisitionSteps,
+    })),
+    stage,
+    loading: false,
+    error: null,
+    history: undefined,
+    futureProposal: undefined,
+  };
+};
+
+export const createGoalId = () => `goal-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+export const listSavedGoals = (): SavedGoalSummary[] =>
+  readJSON<SavedGoalSummary[]>(INDEX_KEY, []).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const loadGoal = (goalId: string): GoalState | null => {
+  const stored = readJSON<GoalState | null>(GOAL_KEY_PREFIX + goalId, null);
+  return stored ? sanitizeGoalState({ ...stored, goalId }) : null;
+};
+
+export const saveGoal = (goalId: string, state: GoalState) => {
+  const goals = readJSON<SavedGoalSummary[]>(INDEX_KEY, []);
+  const existing = goals.find(g => g.id === goalId);
+  const now = Date.now();
+
+  const summary: SavedGoalSummary = {
+    id: goalId,
+    name: existing?.name || state.description.trim().slice(0, 80),
+    description: state.description,
+    strategyCount: state.strategies.length,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  writeJSON(GOAL_KEY_PREFIX + goalId, sanitizeGoalState(state));
+  writeIndex(existing ? goals.map(g => g.id === goalId ? summary : g) : [summary, ...goals]);
+};
+
+export const renameGoal = (goalId: string, name: string) => {
+  const goals = readJSON<SavedGoalSummary[]>(INDEX_KEY, []);
+  writeIndex(goals.map(g => g.id === goalId ? { ...g, name: name.trim() || g.name, updatedAt: Date.now() } : g));
+};
+
+export const duplicateGoal = (goalId: string, nameSuffix: string): SavedGoalSummary | null => {
+  const goals = readJSON<SavedGoalSummary[]>(INDEX_KEY, []);
+  const source = goals.find(g => g.id === goalId);
+  const stored = readJSON<GoalState | null>(GOAL_KEY_PREFIX + goalId, null);
+  if (!source || !stored) return null;
+
+  const now = Date.now();
+  const copy: SavedGoalSummary = {
+    ...source,
+    id: createGoalId(),
+    name: `${source.name} ${nameSuffix}`,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  writeJSON(GOAL_KEY_PREFIX + copy.id, { ...stored, goalId: copy.id });
+  writeIndex([copy, ...goals]);
+  return copy;
+};
+
+export const deleteGoal = (goalId: string) => {
+  try {
+    localStorage.removeItem(GOAL_KEY_PREFIX + goalId);
+  } catch (e) {
+    console.error(e);
+  }
+  writeIndex(readJSON<SavedGoalSummary[]>(INDEX_KEY, []).filter(g => g.id !== goalId));
+  if (getActiveGoalId() === goalId) setActiveGoalId(null);
+};
+
+export const getActiveGoalId = (): string | null => readJSON<string | null>(ACTIVE_KEY, null);
+
+export const setActiveGoalId = (goalId: string | null) => {
+  if (goalId) {
+    writeJSON(ACTIVE_KEY, goalId);
+  } else {
+    try {
+      localStorage.removeItem(ACTIVE_KEY);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { PlanItem, Resource, Step, Strategy } from "../types";
+import { getRootSteps } from "./planGraph";
+import { buildPlanSchedule } from "./planSchedule";
+import { getPlanCost } from "./planBudget";
+import { cleanResourceName, resourceKey } from "./resourceRegistry";
+
+export interface StrategyMetrics {
+  stepCount: number; // Root steps
+  totalDays: number;
+  totalEffortHours: number;
+  totalCost?: number; // Undefined when no step or resource has a cost estimate
+  resourceNames: string[]; // Distinct, first spelling wins
+}
+
+/**
+ * Every resource mentioned anywhere in the plan, including expanded sub-steps.
+ */
+export const collectPlanResources = (plan: PlanItem[]): string[] => {
+  const seen = new Map<string, string>();
+  const visit = (step: Step) => {
+    step.resources.forEach(r => {
+      const key = resourceKey(r);
+      if (key && !seen.has(key)) seen.set(key, cleanResourceName(r));
+    });
+    step.subSteps?.forEach(visit);
+  };
+  getRootSteps(plan).forEach(visit);
+  return Array.from(seen.values());
+};
+
+export const getStrategyMetrics = (strategy: Strategy, resources: Resource[]): StrategyMetrics | null => {
+  if (!strategy.plan || strategy.plan.length === 0) return null;
+  const schedule = buildPlanSchedule(strategy.plan);
+  return {
+    stepCount: schedule.entries.length,
+    totalDays: schedule.totalDays,
+    totalEffortHours: schedule.totalEffortHours,
+    totalCost: getPlanCost(strategy.plan, resources),
+    resourceNames: collectPlanResources(strategy.plan),
+  };
+};
+
+/**
+ * Lowercased names of resources that appear in more than one of the given plans.
+ */
+export const getSharedResourceKeys = (metrics: (StrategyMetrics | null)[]): Set<string> => {
+  const counts = new Map<string, number>();
+  metrics.forEach(m => m?.resourceNames.forEach(name => {
+    const key = resourceKey(name);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }));
+  return new Set(Array.from(counts.entries()).filter(([, count]) => count > 1).map(([key]) => key));
+};
+
+export const isSharedResource = (name: string, shared: Set<string>) => shared.has(resourceKey(name));
@@ -0,0 +1,123 @@
+import { getActiveGoalId, readJSON, writeJSON } from "./storage";
+
+/**
+ * Local record of every model call: tokens, latency and outcome, tagged with the browser
+ * session and the goal that was open. Nothing leaves the device; the developer panel turns
+ * it into totals and an estimated cost using an editable price table.
+ */
+
+const RECORDS_KEY = 'process-jinn:telemetry';
+const PRICES_KEY = 'process-jinn:telemetry-prices';
+const MAX_RECORDS = 1000; // Oldest calls are dropped past this many
+
+export interface TelemetryRecord {
+  id: string;
+  task: string; // Service function that made the call, e.g. "expandStep"
+  provider: string;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  estimated?: boolean; // Token counts were guessed from text length
+  cached?: boolean; // Answered from the response cache without calling the model
+  latencyMs: number;
+  ok: boolean;
+  error?: string; // LLMError kind, or "aborted"
+  sessionId: string;
+  goalId: string | null;
+  timestamp: number;
+}
+
+export interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million response tokens
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'fixture': { input: 0, output: 0 },
+};
+
+export interface TelemetrySummary {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  responseTokens: number;
+  averageLatencyMs: number;
+  cacheHits: number; // Calls answered from the response cache
+  cost: number; // USD, for the calls whose model has a price
+  unpriced: number; // Calls left out of the cost because their model has no price
+}
+
+// A new id per page load; calls made before a reload belong to an earlier session
+export const SESSION_ID = `session-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+const listeners = new Set<() => void>();
+
+export const loadTelemetry = (): TelemetryRecord[] => readJSON<TelemetryRecord[]>(RECORDS_KEY, []);
+
+export const recordLLMCall = (call: Omit<TelemetryRecord, 'id' | 'sessionId' | 'goalId' | 'timestamp'>) => {
+  const now = Date.now();
+  const record: TelemetryRecord = {
+    ...call,
+    id: `call-${now}-${Math.random().toString(36).substr(2, 5)}`,
+    sessionId: SESSION_ID,
+    goalId: getActiveGoalId(), // The goal open when the call finished
+    timestamp: now,
+  };
+  writeJSON(RECORDS_KEY, [...loadTelemetry(), record].slice(-MAX_RECORDS));
+  listeners.forEach(listener => listener());
+};
+
+export const clearTelemetry = () => {
+  writeJSON(RECORDS_KEY, []);
+  listeners.forEach(listener => listener());
+};
+
+/** Calls the listener after every recorded call; returns the unsubscribe function. */
+export const subscribeTelemetry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** The default prices with the user's overrides on top. */
+export const loadPriceTable = (): PriceTable => ({ ...DEFAULT_PRICES, ...readJSON<PriceTable>(PRICES_KEY, {}) });
+
+export const savePriceTable = (prices: PriceTable) => writeJSON(PRICES_KEY, prices);
+
+/** USD cost of one call, or null when its model has no price. */
+export const getCallCost = (record: TelemetryRecord, prices: PriceTable): number | null => {
+  const price = prices[record.model];
+  if (!price) return null;
+  return (record.promptTokens * price.input + record.responseTokens * price.output) / 1_000_000;
+};
+
+export const summarizeTelemetry = (records: TelemetryRecord[], prices: PriceTable): TelemetrySummary => {
+  const summary: TelemetrySummary = { calls: 0, failures: 0, promptTokens: 0, responseTokens: 0, averageLatencyMs: 0, cacheHits: 0, cost: 0, unpriced: 0 };
+  let totalLatency = 0;
+  records.forEach(record => {
+    summary.calls++;
+    if (!record.ok) summary.failures++;
+    if (record.cached) summary.cacheHits++;
+    summary.promptTokens += record.promptTokens;
+    summary.responseTokens += record.responseTokens;
+    totalLatency += record.latencyMs;
+    const cost = getCallCost(record, prices);
+    if (cost === null) summary.unpriced++;
+    else summary.cost += cost;
+  });
+  summary.averageLatencyMs = summary.calls > 0 ? totalLatency / summary.calls : 0;
+  return summary;
+};
+
+/** Totals per service function, most expensive in tokens first. */
+export const summarizeByTask = (records: TelemetryRecord[], prices: PriceTable): { task: string; summary: TelemetrySummary }[] => {
+  const byTask = new Map<string, TelemetryRecord[]>();
+  records.forEach(record => byTask.set(record.task, [...(byTask.get(record.task) || []), record]));
+  return Array.from(byTask, ([task, taskRecords]) => ({ task, summary: summarizeTelemetry(taskRecords, prices) }))
+    .sort((a, b) => (b.summary.promptTokens + b.summary.responseTokens) - (a.summary.promptTokens + a.summary.responseTokens));
+};
@@ -1,116 +1,70 @@
-import { Language } from "./types";
-
-export const t = {
-  en: {
-    appTitle: "Process Jinn",
-    newGoal: "New Goal",
-    inputTitle: "What do you want to achieve?",
-    inputSubtitle: "Define your goal and let AI break it down into reliable strategies and actionable steps.",
-    labelGoal: "Your Goal",
-    placeholderGoal: "e.g., I want to run a marathon in under 4 hours.",
-    labelSpecifics: "Specifics & Metrics",
-    labelEnvironment: "Context / Environment",
-    labelOptional: "(Optional)",
-    placeholderSpecifics: "e.g., In 6 months, training 4 days a week",
-    placeholderEnvironment: "e.g., Working from home, Limited budget, Enterprise environment",
-    btnGenerate: "Generate Strategies",
-    examplesLabel: "EXAMPLES",
-    examples: ["Build a website portfolio", "Learn Spanish", "Plan a Europe trip", "Start a vegetable garden"],
-    loadingAnalyzing: "Analyzing your goal...",
-    loadingThinking: "Thinking through the requirements...",
-    loadingStrategies: "Drafting reliable strategies...",
-    loadingResources: "Identifying key resources...",
-    loadingFinalizing: "Finalizing your plans...",
-    loadingPlan: "Generating detailed steps for this strategy...",
-    selectionTitle: "Choose your Path",
-    selectionSubtitle: "We found 3 reliable ways to achieve your goal.",
-    btnViewPlan: "View Plan",
-    btnSelect: "Select Strategy",
-    headerSelected: "Selected Strategy",
-    headerRoadmap: "Execution Roadmap",
-    btnBack: "Back",
-    btnCopy: "Copy Plan",
-    btnSave: "Save as File",
-    copied: "Copied!",
-    headerResources: "Resource Details",
-    resourceTip: "Resources highlighted in",
-    resourceTip2: "Blue Pills",
-    resourceTip3: "are interactive. Click them to generate a specific acquisition plan.",
-    noResourceTitle: "No Resource Selected",
-    noResourceDesc: "Click on any [Resource] highlighted in the strategies to view its acquisition plan here.",
-    acquisitionPlan: "Acquisition Plan",
-    generating: "Generating...",
-    expand: "How to do this",
-    collapse: "Hide details",
-    simultaneous: "Simultaneous Actions",
-    errorGeneric: "Failed to generate content. Please check your connection or try again.",
-    
-    // New Actions
-    edit: "Edit Step",
-    regenerate: "Regenerate Step",
-    save: "Save",
-    cancel: "Cancel",
-    postEditTitle: "Step updated. What next?",
-    actionJustSave: "Just Save",
-    actionSubsteps: "Plan Sub-steps",
-    actionFuture: "Update Future Steps",
-    regenerating: "Regenerating..."
-  },
-  zh: {
-    appTitle: "流程精灵",
-    newGoal: "新目标",
-    inputTitle: "您想要实现什么目标？",
-    inputSubtitle: "定义您的目标，让 AI 为您制定可靠的策略和可执行的步骤。",
-    labelGoal: "您的目标",
-    placeholderGoal: "例如：我想在4小时内跑完马拉松。",
-    labelSpecifics: "具体细节和指标",
-    labelEnvironment: "背景 / 环境",
-    labelOptional: "(可选)",
-    placeholderSpecifics: "例如：在6个月内，每周训练4天",
-    placeholderEnvironment: "例如：在家办公，预算有限，企业环境",
-    btnGenerate: "生成策略",
-    examplesLabel: "示例",
-    examples: ["建立个人作品集网站", "学习西班牙语", "计划欧洲旅行", "开始种植蔬菜"],
-    loadingAnalyzing: "正在分析您的目标...",
-    loadingThinking: "正在思考需求...",
-    loadingStrategies: "正在起草可靠的策略...",
-    loadingResources: "正在识别关键资源...",
-    loadingFinalizing: "正在完成计划...",
-    loadingPlan: "正在为此策略生成详细步骤...",
-    selectionTitle: "选择您的路径",
-    selectionSubtitle: "我们要为您找到了3种实现目标的可靠方法。",
-    btnViewPlan: "查看计划",
-    btnSelect: "选择策略",
-    headerSelected: "已选策略",
-    headerRoadmap: "执行路线图",
-    btnBack: "返回",
-    btnCopy: "复制计划",
-    btnSave: "保存文件",
-    copied: "已复制！",
-    headerResources: "资源详情",
-    resourceTip: "高亮显示的",
-    resourceTip2: "蓝色胶囊",
-    resourceTip3: "是可交互的。点击它们可生成具体的获取计划。",
-    noResourceTitle: "未选择资源",
-    noResourceDesc: "点击策略中高亮的 [资源] 可在此处查看其获取计划。",
-    acquisitionPlan: "获取计划",
-    generating: "正在生成...",
-    expand: "如何执行",
-    collapse: "隐藏详情",
-    simultaneous: "同步行动",
-    errorGeneric: "生成内容失败，请检查您的网络连接或重试。",
-
-    // New Actions
-    edit: "编辑步骤",
-    regenerate: "重新生成步骤",
-    save: "保存",
-    cancel: "取消",
-    postEditTitle: "步骤已更新。接下来？",
-    actionJustSave: "仅保存",
-    actionSubsteps: "规划子步骤",
-    actionFuture: "更新后续步骤",
-    regenerating: "重新生成中..."
+import { en, messages as baseMessages } from "./locales/en";
+import { zh } from "./locales/zh";
+
+/**
+ * Locale registry. Each locale lives in its own file under locales/ and may leave keys out:
+ * missing ones are taken from its fallback chain, which always ends with the base locale.
+ * Supporting another language means adding a file there and listing it below.
+ */
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A message that depends on a count; the category comes from Intl.PluralRules
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+export type Messages = {
+  [K in keyof typeof baseMessages]: (typeof baseMessages)[K] extends string
+    ? string
+    : (typeof baseMessages)[K] extends string[] ? string[] : PluralMessage;
+};
+
+export interface LocaleDefinition {
+  name: string; // In the language itself, for the language picker
+  intlLocale: string; // BCP 47 tag for dates, numbers and plural rules
+  llmLanguage: string; // How prompts tell the model which language to answer in
+  currency: string; // Used for cost estimates when the user hasn't picked one
+  fallback?: string[]; // Locales to borrow missing messages from before the base locale
+  messages: Partial<Messages>;
+}
+
+const LOCALES = { en, zh } satisfies Record<string, LocaleDefinition>;
+
+export type Language = keyof typeof LOCALES;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES = Object.keys(LOCALES) as Language[];
+
+export const isLanguage = (code: unknown): code is Language =>
+  typeof code === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, code);
+
+export const getLocale = (lang: Language): LocaleDefinition => LOCALES[lang] || LOCALES[DEFAULT_LANGUAGE];
+
+/** The locale followed by the ones it falls back to, ending with the base locale. */
+export const getFallbackChain = (lang: Language): Language[] => {
+  const chain: Language[] = [];
+  [lang, ...(getLocale(lang).fallback || []), DEFAULT_LANGUAGE].forEach(code => {
+    if (isLanguage(code) && !chain.includes(code)) chain.push(code);
+  });
+  return chain;
+};
+
+const resolved = new Map<Language, Messages>();
+
+export const getTranslation = (lang: Language): Messages => {
+  if (!resolved.has(lang)) {
+    const layers = getFallbackChain(lang).reverse().map(code => LOCALES[code].messages);
+    resolved.set(lang, Object.assign({}, ...layers) as Messages);
   }
+  return resolved.get(lang)!;
 };
 
-export const getTranslation = (lang: Language) => t[lang];
+/** Fills "{name}" placeholders; unknown placeholders are left as they are. */
+export const interpolate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? String(values[name]) : match);
+
+/** Picks the form for the count by the locale's plural rules, then fills in "{count}" and the other values. */
+export const pluralize = (message: PluralMessage, count: number, intlLocale: string, values: Record<string, string | number> = {}): string => {
+  const category = new Intl.PluralRules(intlLocale).select(count) as PluralCategory;
+  return interpolate(message[category] ?? message.other, { count, ...values });
+};
@@ -1,4 +1,15 @@
-export type Language = 'en' | 'zh';
+import type { Language } from "./translations";
+
+export type { Language }; // A code from the locale registry in translations.ts
+
+/**
+ * Where the user stands with a resource:
+ *   owned    – already available before the plan started
+ *   to_buy   – still has to be bought, borrowed or otherwise obtained
+ *   to_learn – a skill or knowledge that still has to be learned
+ *   acquired – was missing and has been obtained since
+ */
+export type ResourceStatus = 'owned' | 'to_buy' | 'to_learn' | 'acquired';
 
 export interface Resource {
   id: string;
@@ -7,6 +18,11 @@ export interface Resource {
   acquisitionSteps?: Step[];
   loading?: boolean;
   language?: Language;
+  status?: ResourceStatus; // Undefined until assessed or set by the user
+  quantity?: number;
+  costEstimate?: number; // Per unit
+  notes?: string;
+  aliases?: string[]; // Other spellings merged into this resource, e.g. "VSCode" or "锤子"
 }
 
 export interface Step {
@@ -14,8 +30,14 @@ export interface Step {
   instruction: string; // Plain text with [Resource] bracket notation from AI
   resources: string[]; // List of resource names found in this step
   subSteps?: Step[];
+  dependsOn?: string[]; // Ids of root steps that must finish first; undefined = wait on the previous plan item
+  durationDays?: number; // Estimated calendar time
+  effortHours?: number; // Estimated hands-on work
+  costEstimate?: number; // Estimated spend in the goal's currency, not counting its resources, which are priced separately
+  scheduledDate?: string; // Manual start date (YYYY-MM-DD); overrides the automatic schedule
   isExpanded?: boolean;
   isCompleted?: boolean;
+  completedAt?: number; // When it was checked off (or, for a parent, when its last sub-step was)
   loading?: boolean;
 }
 
@@ -28,27 +50,108 @@ export type PlanItem =
   | { type: 'single'; step: Step } 
   | { type: 'parallel'; group: ParallelGroup };
 
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface PlanVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  plan: PlanItem[];
+}
+
 export interface Strategy {
   id: string;
   title: string;
   description: string;
+  risk?: { level: RiskLevel; reason: string }; // Model's assessment of what could derail this strategy
+  estimatedCost?: number; // Model's rough total before a plan exists, in the goal's currency
   plan?: PlanItem[]; // Optional for lazy loading
   planLoading?: boolean;
   planLanguage?: Language;
+  refining?: boolean; // Being rewritten from user feedback
+  versions?: PlanVersion[]; // Named snapshots of the plan, oldest first
+}
+
+// What a history entry undoes; the UI turns these into readable labels
+export type PlanChangeKind = 'edit' | 'complete' | 'regenerate' | 'future' | 'expand' | 'estimate' | 'schedule' | 'resource' | 'plan' | 'restore' | 'add' | 'delete' | 'move' | 'inventory' | 'cheaper' | 'merge' | 'split' | 'translate';
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  detail?: string; // Usually the instruction of the step that changed
+}
+
+export interface PlanSnapshot {
+  strategies: Strategy[];
+  resources: Resource[];
+}
+
+export interface HistoryEntry extends PlanChange {
+  id: string;
+  timestamp: number;
+  snapshot: PlanSnapshot; // In `past`: the plan before the change. In `future`: the plan after it.
+}
+
+export interface PlanHistory {
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next redo first
+}
+
+export type PlanItemChange = 'unchanged' | 'reworded' | 'added' | 'removed';
+
+export interface PlanItemDiff {
+  change: PlanItemChange;
+  current?: PlanItem; // Missing for "added"
+  proposed?: PlanItem; // Missing for "removed"
+}
+
+// Regenerated future steps waiting for the user to accept or reject them item by item
+export interface FutureProposal {
+  strategyId: string;
+  parentStepId?: string; // Set when the tail being replaced is this step's sub-steps
+  startIndex: number; // Index (in the plan, or the parent's sub-steps) of the first item being replaced
+  anchorText: string; // The edited step the new tail follows
+  diff: PlanItemDiff[];
+  accepted: boolean[]; // One decision per diff entry
 }
 
-export type AppStage = 'INPUT' | 'PROCESSING' | 'SELECTION' | 'PROCESS';
+export interface Budget {
+  currency: string; // ISO 4217 code, e.g. "USD"
+  cap?: number; // Most the user wants to spend on the whole goal
+}
+
+export type AppStage = 'INPUT' | 'SELECTION' | 'PROCESS' | 'LIBRARY';
+
+// One text in every language it has been shown in, e.g. { en: "Buy a [Hammer]", zh: "购买[锤子]" }
+export type TranslationEntry = Partial<Record<Language, string>>;
 
 export interface GoalState {
+  goalId: string | null; // Key in the saved-goal library; null until the first generation
   description: string;
   quantification: string;
   environment: string;
+  startDate?: string; // YYYY-MM-DD; anchors the automatic step schedule
+  budgetCap?: number; // Optional spending limit passed into the prompts
+  currency?: string; // Defaults to the language's currency, see LocaleDefinition
+  strategyCount?: number; // How many strategies to request; defaults to 3
   strategies: Strategy[];
   resources: Resource[];
   selectedResourceId: string | null;
+  resourceTrail?: string[]; // Resources opened before the selected one, for the panel's breadcrumbs
   selectedStrategyId: string | null;
   stage: AppStage;
   loading: boolean;
   error: string | null;
   language: Language;
+  translationMemory?: TranslationEntry[]; // Lets a translated plan switch back without the model
+  history?: PlanHistory; // Undo/redo for the current session; never saved
+  futureProposal?: FutureProposal; // Never saved
+}
+
+export interface SavedGoalSummary {
+  id: string;
+  name: string;
+  description: string;
+  strategyCount: number;
+  createdAt: number;
+  updatedAt: number;
 }